@@ -31,6 +31,126 @@
     });
   };
 
+  // Time and timers. These follow server/fluxo-time.ts so that the preview and
+  // Run agree: times are seconds since 1970, dates are formatted in UTC, and
+  // timers return a handle with cancel().
+  const nativeSetTimeout = window.setTimeout.bind(window);
+  const nativeSetInterval = window.setInterval.bind(window);
+  // clock() counts from the start of the run: when the page's Fluxo scripts start loading
+  let runStartedAt = performance.now();
+  const DEFAULT_DATE_PATTERN = 'YYYY-MM-DD HH:mm:ss';
+  const DATE_TOKENS = { YYYY: 4, MM: 2, DD: 2, HH: 2, mm: 2, ss: 2, SSS: 3 };
+  const ISO_DATE_PATTERNS = ['YYYY-MM-DD HH:mm:ss.SSS', 'YYYY-MM-DD HH:mm:ss', 'YYYY-MM-DD HH:mm', 'YYYY-MM-DD'];
+
+  const fluxoTime = {
+    now: function() {
+      return Date.now() / 1000;
+    },
+
+    clock: function() {
+      return (performance.now() - runStartedAt) / 1000;
+    },
+
+    formatDate: function(seconds, pattern) {
+      if (seconds === undefined) seconds = fluxoTime.now();
+      if (pattern === undefined) pattern = DEFAULT_DATE_PATTERN;
+      const date = new Date(seconds * 1000);
+      if (isNaN(date.getTime())) {
+        throw new Error('Runtime Error: formatDate cannot format ' + seconds);
+      }
+      const parts = {
+        YYYY: date.getUTCFullYear(),
+        MM: date.getUTCMonth() + 1,
+        DD: date.getUTCDate(),
+        HH: date.getUTCHours(),
+        mm: date.getUTCMinutes(),
+        ss: date.getUTCSeconds(),
+        SSS: date.getUTCMilliseconds()
+      };
+      return pattern.replace(/YYYY|SSS|MM|DD|HH|mm|ss/g, function(token) {
+        return String(parts[token]).padStart(DATE_TOKENS[token], '0');
+      });
+    },
+
+    parseDate: function(text, pattern) {
+      let seconds;
+      if (pattern !== undefined) {
+        seconds = matchDate(text, pattern);
+      } else {
+        const iso = text.replace('T', ' ').replace(/Z$/, '');
+        for (let i = 0; i < ISO_DATE_PATTERNS.length && seconds === undefined; i++) {
+          seconds = matchDate(iso, ISO_DATE_PATTERNS[i]);
+        }
+      }
+      if (seconds === undefined) {
+        throw new Error('Runtime Error: parseDate could not read "' + text + '" as ' + (pattern || DEFAULT_DATE_PATTERN));
+      }
+      return seconds;
+    },
+
+    setTimeout: function(callback, seconds) {
+      checkTimerArguments('setTimeout', callback, seconds);
+      const id = nativeSetTimeout(callback, seconds * 1000);
+      return { cancel: function() { clearTimeout(id); } };
+    },
+
+    setInterval: function(callback, seconds) {
+      checkTimerArguments('setInterval', callback, seconds);
+      const id = nativeSetInterval(callback, Math.max(seconds * 1000, 1));
+      return { cancel: function() { clearInterval(id); } };
+    },
+
+    // wait(seconds) without a block
+    delay: function(seconds) {
+      if (typeof seconds !== 'number') {
+        throw new Error('Type Error: delay expects a number of seconds, got ' + typeName(seconds));
+      }
+      return window.wait(seconds);
+    }
+  };
+
+  function checkTimerArguments(name, callback, seconds) {
+    if (typeof callback !== 'function' || typeof seconds !== 'number' || seconds < 0) {
+      throw new Error('Type Error: ' + name + ' expects a function and a number of seconds');
+    }
+  }
+
+  // Type names as the server reports them in errors
+  function typeName(value) {
+    if (value === null) return 'null';
+    if (value === undefined) return 'undefined';
+    if (Array.isArray(value)) return 'list';
+    if (typeof value === 'object') return 'table';
+    return typeof value;
+  }
+
+  function matchDate(text, pattern) {
+    const tokens = [];
+    const source = pattern.replace(/YYYY|SSS|MM|DD|HH|mm|ss|[.*+?^${}()|[\]\\]/g, function(part) {
+      if (!(part in DATE_TOKENS)) return '\\' + part;
+      tokens.push(part);
+      return '(\\d{' + DATE_TOKENS[part] + '})';
+    });
+    const match = new RegExp('^' + source + '$').exec(text);
+    if (!match) return undefined;
+
+    const parts = { YYYY: 1970, MM: 1, DD: 1, HH: 0, mm: 0, ss: 0, SSS: 0 };
+    tokens.forEach(function(token, i) { parts[token] = Number(match[i + 1]); });
+    const time = Date.UTC(parts.YYYY, parts.MM - 1, parts.DD, parts.HH, parts.mm, parts.ss, parts.SSS);
+    const date = new Date(time);
+    if (
+      date.getUTCFullYear() !== parts.YYYY || date.getUTCMonth() !== parts.MM - 1 || date.getUTCDate() !== parts.DD ||
+      date.getUTCHours() !== parts.HH || date.getUTCMinutes() !== parts.mm || date.getUTCSeconds() !== parts.ss
+    ) {
+      return undefined;
+    }
+    return time / 1000;
+  }
+
+  // Names and values of the time builtins, passed to transpiled code
+  const TIME_BUILTIN_NAMES = ['now', 'clock', 'formatDate', 'parseDate', 'setTimeout', 'setInterval', 'delay'];
+  const TIME_BUILTINS = TIME_BUILTIN_NAMES.map(function(name) { return fluxoTime[name]; });
+
   // Helper function to get or create an element
   function getElement(selector) {
     if (typeof selector === 'object' && selector.element) {
@@ -367,7 +487,7 @@
       const moduleFunction = new AsyncFunction(
         'require', 'module', 'exports', 'console', 'select', 
         'createButton', 'createDiv', 'createInput', 'createText', 
-        'createHeading', 'createParagraph', 'wait',
+        'createHeading', 'createParagraph', 'wait', ...TIME_BUILTIN_NAMES,
         jsCode
       );
       
@@ -375,7 +495,7 @@
         require, module, moduleExports, console, 
         window.select, window.createButton, window.createDiv, 
         window.createInput, window.createText, window.createHeading, 
-        window.createParagraph, window.wait
+        window.createParagraph, window.wait, ...TIME_BUILTINS
       );
       
       // Store in registry
@@ -391,6 +511,15 @@
     }
   }
 
+  // Applies `rewrite` to the code between string literals, leaving the strings as they are
+  function replaceOutsideStrings(code, rewrite) {
+    const parts = code.split(/("(?:[^"\\\n]|\\.)*"|'(?:[^'\\\n]|\\.)*'|`(?:[^`\\]|\\.)*`)/);
+    return parts.map(function(part, i) {
+      // split() puts the captured strings at the odd indexes
+      return i % 2 === 0 ? rewrite(part) : part;
+    }).join('');
+  }
+
   // Simple Fluxo to JavaScript transpiler
   function transpileFluxoToJS(fluxoCode) {
     let jsCode = fluxoCode;
@@ -405,6 +534,12 @@
       return 'await wait(' + seconds + ');\n';
     });
     
+    // delay(seconds) pauses like wait() but has no block. Only calls of the
+    // builtin itself are awaited: not obj.delay(...), and not text in strings.
+    jsCode = replaceOutsideStrings(jsCode, function(code) {
+      return code.replace(/(^|[^.\w$])delay\s*\(/g, '$1await delay(');
+    });
+    
     // Convert local to var/let
     jsCode = jsCode.replace(/\blocal\s+/g, 'let ');
     
@@ -453,13 +588,13 @@
       const AsyncFunction = Object.getPrototypeOf(async function(){}).constructor;
       const func = new AsyncFunction(
         'console', 'select', 'createButton', 'createDiv', 'createInput', 
-        'createText', 'createHeading', 'createParagraph', 'wait',
+        'createText', 'createHeading', 'createParagraph', 'wait', ...TIME_BUILTIN_NAMES,
         jsCode
       );
       await func(
         console, window.select, window.createButton, window.createDiv, 
         window.createInput, window.createText, window.createHeading, 
-        window.createParagraph, window.wait
+        window.createParagraph, window.wait, ...TIME_BUILTINS
       );
     } catch (error) {
       console.error('Fluxo execution error:', error);
@@ -468,6 +603,8 @@
 
   // Load Fluxo scripts from data-fluxo-entry attributes and data-fluxo-code scripts
   async function loadFluxoScripts() {
+    runStartedAt = performance.now();
+
     // Load external entry modules first
     const entryScripts = document.querySelectorAll('script[data-fluxo-entry]');
     const entryFiles = Array.from(entryScripts).map(s => s.getAttribute('data-fluxo-entry'));
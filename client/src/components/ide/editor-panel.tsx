@@ -14,6 +14,7 @@ interface EditorPanelProps {
   onTabClick: (path: string) => void;
   onTabClose: (path: string) => void;
   onContentChange: (path: string, content: string) => void;
+  revealTarget?: { path: string; line: number; column?: number } | null;
 }
 
 export function EditorPanel({
@@ -24,6 +25,7 @@ export function EditorPanel({
   onTabClick,
   onTabClose,
   onContentChange,
+  revealTarget,
 }: EditorPanelProps) {
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
 
@@ -58,6 +60,20 @@ export function EditorPanel({
     registerFluxoLanguage();
   }, []);
 
+  // Jump to a source location (e.g. clicked from an error in the output panel)
+  // once its file is the active tab and its content has loaded
+  const revealContentLoaded = revealTarget ? fileContents[revealTarget.path] !== undefined : false;
+  useEffect(() => {
+    const editor = editorRef.current;
+    if (!editor || !revealTarget || activeTab !== revealTarget.path || !revealContentLoaded) {
+      return;
+    }
+    const position = { lineNumber: revealTarget.line, column: revealTarget.column ?? 1 };
+    editor.revealLineInCenter(position.lineNumber);
+    editor.setPosition(position);
+    editor.focus();
+  }, [revealTarget, activeTab, revealContentLoaded]);
+
   if (openTabs.length === 0) {
     return (
       <div className="h-full flex items-center justify-center bg-background text-muted-foreground">
@@ -113,6 +129,7 @@ export function EditorPanel({
         {activeTab && (
           <Editor
             height="100%"
+            path={activeTab}
             language={getLanguage(activeTab)}
             value={fileContents[activeTab] || ''}
             onChange={(value) => {
@@ -1,5 +1,6 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { OutputMessage } from "@shared/schema";
+import { taskLabel } from "@/lib/run-client";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
 import { Trash2, Terminal, Eye } from "lucide-react";
@@ -23,6 +24,8 @@ interface OutputPanelProps {
 export function OutputPanel({ output, onClear, activeFile, fileContents = {}, onSourceClick, extensions = [] }: OutputPanelProps) {
   const [previewHtml, setPreviewHtml] = useState('');
   const [activeTab, setActiveTab] = useState('output');
+  // 'all', 'main' for the main program, or the ID of a spawned task
+  const [taskFilter, setTaskFilter] = useState<'all' | 'main' | number>('all');
   const iframeRef = useRef<HTMLIFrameElement>(null);
   const hasAutoSwitchedToPreview = useRef(false);
   
@@ -195,6 +198,24 @@ export function OutputPanel({ output, onClear, activeFile, fileContents = {}, on
   const isFluxoFile = activeFile?.endsWith('.fxo') || activeFile?.endsWith('.fxm');
   const canPreview = isHtmlSupporterEnabled && (indexHtmlExists || isHtmlFile || isFluxoFile);
   
+  // Spawned tasks that produced output, in the order they first spoke
+  const tasks = useMemo(() => {
+    const seen = new Map<number, NonNullable<OutputMessage['task']>>();
+    output.forEach(msg => msg.task && !seen.has(msg.task.id) && seen.set(msg.task.id, msg.task));
+    return Array.from(seen.values());
+  }, [output]);
+
+  // A new run (or Clear) drops the tasks, so fall back to showing everything
+  useEffect(() => {
+    if (typeof taskFilter === 'number' && !tasks.some(task => task.id === taskFilter)) {
+      setTaskFilter('all');
+    }
+  }, [tasks, taskFilter]);
+
+  const visibleOutput = output.filter(msg =>
+    taskFilter === 'all' || (taskFilter === 'main' ? !msg.task : msg.task?.id === taskFilter)
+  );
+
   const formatTime = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleTimeString('en-US', { 
@@ -281,7 +302,32 @@ export function OutputPanel({ output, onClear, activeFile, fileContents = {}, on
               </div>
             ) : (
               <div className="p-3 font-mono text-[13px] space-y-1">
-                {output.map((msg) => (
+                {tasks.length > 0 && (
+                  <div className="flex flex-wrap gap-1 pb-2 mb-1 border-b border-card-border font-sans" data-testid="output-task-filter">
+                    {(['all', 'main'] as const).map(filter => (
+                      <Badge
+                        key={filter}
+                        variant={taskFilter === filter ? 'default' : 'outline'}
+                        className="cursor-pointer text-xs"
+                        onClick={() => setTaskFilter(filter)}
+                      >
+                        {filter === 'all' ? 'All' : 'Main'}
+                      </Badge>
+                    ))}
+                    {tasks.map(task => (
+                      <Badge
+                        key={task.id}
+                        variant={taskFilter === task.id ? 'default' : 'outline'}
+                        className="cursor-pointer text-xs"
+                        onClick={() => setTaskFilter(task.id)}
+                        data-testid={`output-task-filter-${task.id}`}
+                      >
+                        {taskLabel(task)}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                {visibleOutput.map((msg) => (
                   <div 
                     key={msg.id} 
                     className={`flex gap-2 flex-wrap ${msg.filePath && onSourceClick ? 'cursor-pointer hover-elevate rounded-md px-2 -mx-2 py-1 -my-1' : ''}`}
@@ -296,15 +342,36 @@ export function OutputPanel({ output, onClear, activeFile, fileContents = {}, on
                       {getMessageIcon(msg.type)}
                     </span>
                     <div className="flex-1 flex gap-2 min-w-0">
+                      {msg.task && (
+                        <Badge variant="secondary" className="h-5 text-xs px-1.5 flex-shrink-0 font-sans">
+                          {taskLabel(msg.task)}
+                        </Badge>
+                      )}
                       <span className={`${getMessageColor(msg.type)} break-all`}>
                         {msg.message}
                       </span>
                       {msg.filePath && (
                         <span className="text-muted-foreground text-xs ml-auto flex-shrink-0">
-                          {msg.filePath.split('/').pop()}
+                          {msg.filePath.split('/').pop()}{msg.line ? `:${msg.line}` : ''}
                         </span>
                       )}
                     </div>
+                    {msg.stack && msg.stack.length > 0 && (
+                      <div className="w-full pl-[4.5rem] text-xs text-muted-foreground" data-testid={`output-stack-${msg.id}`}>
+                        {msg.stack.map((frame, index) => (
+                          <div
+                            key={index}
+                            className={onSourceClick ? 'cursor-pointer hover:underline' : ''}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onSourceClick?.(frame.filePath, frame.line, frame.column);
+                            }}
+                          >
+                            at {frame.functionName} ({frame.filePath}{frame.line ? `:${frame.line}` : ''})
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -3,17 +3,26 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
 import { Terminal as TerminalIcon, Trash2, ChevronRight } from "lucide-react";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { taskLabel } from "@/lib/run-client";
 import { useQuery } from "@tanstack/react-query";
 import type { Extension, OutputMessage } from "@shared/schema";
 
 interface TerminalLine {
   id: string;
-  type: 'command' | 'output' | 'error' | 'success';
+  type: 'command' | 'output' | 'error' | 'warning' | 'success';
   content: string;
   timestamp: number;
 }
 
-export function Terminal() {
+interface TerminalProps {
+  runOutput?: OutputMessage[];
+  // Set while the running program waits on input(); Enter then answers it
+  // instead of running a terminal command
+  inputPrompt?: string | null;
+  onInputSubmit?: (value: string) => void;
+}
+
+export function Terminal({ runOutput = [], inputPrompt = null, onInputSubmit }: TerminalProps) {
   const [history, setHistory] = useState<TerminalLine[]>([
     {
       id: '1',
@@ -34,6 +43,8 @@ export function Terminal() {
   const [currentDirectory, setCurrentDirectory] = useState('/');
   const inputRef = useRef<HTMLInputElement>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
+  // Number of run output messages already echoed into the terminal
+  const echoedOutputCount = useRef(0);
 
   const { data: extensions = [] } = useQuery<Extension[]>({
     queryKey: ['/api/extensions'],
@@ -54,6 +65,30 @@ export function Terminal() {
     }]);
   };
 
+  // Echo program output as it streams in. A shorter list means a new run
+  // started (or the output was cleared), so start counting again.
+  useEffect(() => {
+    if (runOutput.length < echoedOutputCount.current) {
+      echoedOutputCount.current = 0;
+    }
+    const fresh = runOutput.slice(echoedOutputCount.current);
+    echoedOutputCount.current = runOutput.length;
+    if (fresh.length === 0) return;
+
+    setHistory(prev => [...prev, ...fresh.map(message => ({
+      id: message.id,
+      type: message.type === 'log' ? 'output' as const : message.type,
+      content: message.task ? `[${taskLabel(message.task)}] ${message.message}` : message.message,
+      timestamp: message.timestamp,
+    }))]);
+  }, [runOutput]);
+
+  useEffect(() => {
+    if (inputPrompt !== null) {
+      inputRef.current?.focus();
+    }
+  }, [inputPrompt]);
+
   const executeCommand = async (cmd: string) => {
     const trimmed = cmd.trim();
     if (!trimmed) return;
@@ -751,7 +786,11 @@ export function Terminal() {
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
+    if (e.key === 'Enter' && inputPrompt !== null) {
+      addLine('command', `${inputPrompt}${currentCommand}`);
+      onInputSubmit?.(currentCommand);
+      setCurrentCommand('');
+    } else if (e.key === 'Enter') {
       executeCommand(currentCommand);
       setCurrentCommand('');
     } else if (e.key === 'ArrowUp') {
@@ -780,6 +819,8 @@ export function Terminal() {
         return 'text-primary';
       case 'error':
         return 'text-destructive';
+      case 'warning':
+        return 'text-yellow-500';
       case 'success':
         return 'text-green-500';
       default:
@@ -821,7 +862,9 @@ export function Terminal() {
         ))}
         
         <div className="flex items-start gap-2 text-primary">
-          <span className="text-muted-foreground flex-shrink-0">{currentDirectory}$</span>
+          <span className="text-muted-foreground flex-shrink-0 whitespace-pre">
+            {inputPrompt !== null ? inputPrompt : `${currentDirectory}$`}
+          </span>
           <input
             ref={inputRef}
             type="text"
@@ -829,7 +872,7 @@ export function Terminal() {
             onChange={(e) => setCurrentCommand(e.target.value)}
             onKeyDown={handleKeyDown}
             className="flex-1 bg-transparent outline-none"
-            placeholder="Type a command..."
+            placeholder={inputPrompt !== null ? "Type your answer..." : "Type a command..."}
             data-testid="input-terminal-command"
             autoFocus
           />
@@ -1,4 +1,15 @@
 import { loader } from "@monaco-editor/react";
+import type { editor } from "monaco-editor";
+import type { TypeDiagnostic } from "@shared/schema";
+
+// Exports of the built-in std: modules (see server/fluxo-stdlib.ts)
+const STD_MODULE_EXPORTS: Record<string, string[]> = {
+  string: ['split', 'join', 'trim', 'upper', 'lower', 'replace', 'find', 'contains', 'startsWith', 'endsWith', 'repeat', 'format'],
+  math: ['pi', 'huge', 'floor', 'ceil', 'round', 'abs', 'sqrt', 'pow', 'min', 'max', 'random', 'seed'],
+  list: ['push', 'pop', 'map', 'filter', 'reduce', 'sort', 'slice', 'contains', 'indexOf', 'reverse'],
+  table: ['keys', 'values', 'has', 'remove', 'size', 'merge'],
+  json: ['encode', 'decode'],
+};
 
 export function registerFluxoLanguage() {
   loader.init().then((monaco) => {
@@ -41,8 +52,9 @@ export function registerFluxoLanguage() {
     // Define syntax highlighting rules
     monaco.languages.setMonarchTokensProvider('fluxo', {
       keywords: [
-        'module', 'export', 'import', 'from', 'require', 'function', 'return', 'if', 'else',
-        'while', 'for', 'break', 'continue', 'local',
+        'module', 'export', 'import', 'from', 'require', 'function', 'class', 'extends', 'return', 'if', 'else',
+        'match', 'case', 'while', 'for', 'in', 'break', 'continue', 'local', 'const', 'enum',
+        'try', 'catch', 'finally', 'throw', 'and', 'or', 'not', 'await',
         'true', 'false', 'null', 'undefined'
       ],
 
@@ -59,7 +71,8 @@ export function registerFluxoLanguage() {
 
       operators: [
         '=', '>', '<', '!', ':', '+', '-', '*', '/', '%',
-        '==', '!=', '<=', '>=', '&&', '||', '++', '--'
+        '==', '!=', '<=', '>=', '&&', '||', '++', '--',
+        '+=', '-=', '*=', '/=', '%=', '=>'
       ],
 
       symbols: /[=><!~?:&|+\-*\/\^%]+/,
@@ -98,6 +111,9 @@ export function registerFluxoLanguage() {
           [/[;,.]/, 'delimiter'],
 
           // Strings
+          [/"""/, 'string', '@string_triple_double'],
+          [/'''/, 'string', '@string_triple_single'],
+          [/`/, 'string', '@string_template'],
           [/"([^"\\]|\\.)*$/, 'string.invalid'],
           [/'([^'\\]|\\.)*$/, 'string.invalid'],
           [/"/, 'string', '@string_double'],
@@ -127,6 +143,35 @@ export function registerFluxoLanguage() {
           [/\\./, 'string.escape'],
           [/'/, 'string', '@pop']
         ],
+
+        string_triple_double: [
+          [/"""/, 'string', '@pop'],
+          [/[^\\"]+/, 'string'],
+          [/\\./, 'string.escape'],
+          [/"/, 'string']
+        ],
+
+        string_triple_single: [
+          [/'''/, 'string', '@pop'],
+          [/[^\\']+/, 'string'],
+          [/\\./, 'string.escape'],
+          [/'/, 'string']
+        ],
+
+        string_template: [
+          [/\$\{/, 'delimiter.bracket', '@template_expression'],
+          [/[^\\`$]+/, 'string'],
+          [/\\./, 'string.escape'],
+          [/`/, 'string', '@pop'],
+          [/\$/, 'string']
+        ],
+
+        // Code inside ${...}; nested braces (table literals) get their own state
+        template_expression: [
+          [/\{/, 'delimiter.bracket', '@template_expression'],
+          [/\}/, 'delimiter.bracket', '@pop'],
+          { include: 'root' }
+        ],
       },
     });
 
@@ -163,6 +208,18 @@ export function registerFluxoLanguage() {
         if (importMatch || es6ImportMatch) {
           // We're inside an import statement - suggest available exports from the module
           let modulePath = importMatch ? importMatch[1] : null;
+
+          if (modulePath?.startsWith('std:')) {
+            const stdExports = STD_MODULE_EXPORTS[modulePath.slice(4)] ?? [];
+            return {
+              suggestions: stdExports.map(name => ({
+                label: name,
+                kind: monaco.languages.CompletionItemKind.Function,
+                insertText: name,
+                documentation: `Exported from ${modulePath}`,
+              })) as any[],
+            };
+          }
           
           if (modulePath) {
             try {
@@ -288,6 +345,13 @@ export function registerFluxoLanguage() {
             insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
             documentation: 'Import all exports from a module as an object',
           },
+          {
+            label: 'import std',
+            kind: monaco.languages.CompletionItemKind.Keyword,
+            insertText: 'import ${1:name} "std:${2|string,math,list,table,json|}"',
+            insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+            documentation: 'Import a standard library module',
+          },
           {
             label: 'import()',
             kind: monaco.languages.CompletionItemKind.Function,
@@ -302,6 +366,34 @@ export function registerFluxoLanguage() {
             insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
             documentation: 'Define a function',
           },
+          {
+            label: 'class',
+            kind: monaco.languages.CompletionItemKind.Keyword,
+            insertText: 'class ${1:Name} {\n\tfunction new(self${2:, params}) {\n\t\t$0\n\t}\n}',
+            insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+            documentation: 'Define a class; call it like a function to make an instance',
+          },
+          {
+            label: 'match',
+            kind: monaco.languages.CompletionItemKind.Keyword,
+            insertText: 'match ${1:value} {\n\tcase ${2:pattern} => ${3:statement}\n\tcase _ => ${0:statement}\n}',
+            insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+            documentation: 'Run the first case whose pattern matches a value',
+          },
+          {
+            label: 'const',
+            kind: monaco.languages.CompletionItemKind.Keyword,
+            insertText: 'const ${1:NAME} = ${0:value}',
+            insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+            documentation: 'Declare a variable that cannot be reassigned',
+          },
+          {
+            label: 'enum',
+            kind: monaco.languages.CompletionItemKind.Keyword,
+            insertText: 'enum ${1:Name} { ${0:First, Second} }',
+            insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+            documentation: 'Define a fixed set of named values',
+          },
           {
             label: 'createButton',
             kind: monaco.languages.CompletionItemKind.Function,
@@ -365,6 +457,69 @@ export function registerFluxoLanguage() {
             insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
             documentation: 'Pause execution for specified seconds, then execute the code block',
           },
+          {
+            label: 'delay',
+            kind: monaco.languages.CompletionItemKind.Function,
+            insertText: 'delay(${1:seconds})',
+            insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+            documentation: 'Pause for a number of seconds without a block',
+          },
+          {
+            label: 'setTimeout',
+            kind: monaco.languages.CompletionItemKind.Function,
+            insertText: 'setTimeout(() => {\n\t$0\n}, ${1:seconds})',
+            insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+            documentation: 'Run a function once after a number of seconds; returns a timer with cancel()',
+          },
+          {
+            label: 'setInterval',
+            kind: monaco.languages.CompletionItemKind.Function,
+            insertText: 'setInterval(() => {\n\t$0\n}, ${1:seconds})',
+            insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+            documentation: 'Run a function every few seconds until its timer is cancelled',
+          },
+          {
+            label: 'formatDate',
+            kind: monaco.languages.CompletionItemKind.Function,
+            insertText: 'formatDate(${1:now()}, "${2:YYYY-MM-DD HH:mm:ss}")',
+            insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+            documentation: 'Format a time (seconds since 1970) as UTC text',
+          },
+          {
+            label: 'spawn',
+            kind: monaco.languages.CompletionItemKind.Function,
+            insertText: 'spawn(${1:fn}${2:, args})',
+            insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+            documentation: 'Run a function as a task alongside the rest of the program; await it for its result',
+          },
+          {
+            label: 'channel',
+            kind: monaco.languages.CompletionItemKind.Function,
+            insertText: 'channel()',
+            insertTextRules: monaco.languages.CompletionItemInsertTextRule.None,
+            documentation: 'Create a channel for sending messages between tasks',
+          },
+          {
+            label: 'freeze',
+            kind: monaco.languages.CompletionItemKind.Function,
+            insertText: 'freeze(${1:table})',
+            insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+            documentation: 'Stop a table or list from being changed',
+          },
+          {
+            label: 'for in',
+            kind: monaco.languages.CompletionItemKind.Snippet,
+            insertText: 'for ${1:item} in ${2:items} {\n\t$0\n}',
+            insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+            documentation: 'Loop over a list, string, range(...) or pairs(table)',
+          },
+          {
+            label: 'input',
+            kind: monaco.languages.CompletionItemKind.Function,
+            insertText: 'input("${1:prompt}")',
+            insertTextRules: monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet,
+            documentation: 'Ask for a line of text in the terminal and return it as a string',
+          },
         ];
 
         // Add local functions (current file)
@@ -420,8 +575,83 @@ export function registerFluxoLanguage() {
     });
 
     // Register code validation and diagnostics
-    function validateCode(model: any): any[] {
-      const markers: any[] = [];
+    // Walks one line, tracking which string literal is open. Only """, ''' and
+    // template strings may continue onto the next line; `open` is the delimiter
+    // of one carried over from the previous line.
+    function scanStrings(line: string, open: string | null): { open: string | null; unclosedQuote?: string } {
+      let i = 0;
+      while (i < line.length) {
+        if (open) {
+          if (line[i] === '\\') {
+            i += 2;
+          } else if (line.startsWith(open, i)) {
+            i += open.length;
+            open = null;
+          } else {
+            i++;
+          }
+          continue;
+        }
+        if (line.startsWith('//', i)) break;
+        const char = line[i];
+        if (line.startsWith('"""', i) || line.startsWith("'''", i)) {
+          open = line.substr(i, 3);
+          i += 3;
+        } else if (char === '`') {
+          open = char;
+          i++;
+        } else if (char === '"' || char === "'") {
+          let end = i + 1;
+          while (end < line.length && line[end] !== char) {
+            end += line[end] === '\\' ? 2 : 1;
+          }
+          if (end >= line.length) return { open: null, unclosedQuote: char };
+          i = end + 1;
+        } else {
+          i++;
+        }
+      }
+      return { open };
+    }
+
+    // Type errors come from the server's checker, which also reads the modules
+    // a file imports. They are fetched once typing pauses and kept per model
+    // so validateCode can include them.
+    const typeMarkers = new WeakMap<editor.ITextModel, editor.IMarkerData[]>();
+    const typeCheckTimers = new WeakMap<editor.ITextModel, ReturnType<typeof setTimeout>>();
+
+    function scheduleTypeCheck(model: editor.ITextModel) {
+      clearTimeout(typeCheckTimers.get(model));
+      typeCheckTimers.set(model, setTimeout(async () => {
+        const code = model.getValue();
+        try {
+          const response = await fetch('/api/typecheck', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ path: model.uri.path, code }),
+          });
+          if (!response.ok || model.isDisposed() || model.getValue() !== code) return;
+          const { diagnostics } = await response.json() as { diagnostics: TypeDiagnostic[] };
+          typeMarkers.set(model, diagnostics.map(diagnostic => {
+            const word = model.getWordAtPosition({ lineNumber: diagnostic.line, column: diagnostic.column });
+            return {
+              severity: monaco.MarkerSeverity.Error,
+              startLineNumber: diagnostic.line,
+              startColumn: diagnostic.column,
+              endLineNumber: diagnostic.line,
+              endColumn: word ? word.endColumn : diagnostic.column + 1,
+              message: diagnostic.message,
+            };
+          }));
+          monaco.editor.setModelMarkers(model, 'fluxo', validateCode(model));
+        } catch {
+          // Keep the previous type markers if the server cannot be reached
+        }
+      }, 500));
+    }
+
+    function validateCode(model: editor.ITextModel): editor.IMarkerData[] {
+      const markers: editor.IMarkerData[] = [...(typeMarkers.get(model) ?? [])];
       const code = model.getValue();
       const lines = code.split('\n');
 
@@ -429,20 +659,21 @@ export function registerFluxoLanguage() {
       let parenBalance = 0;
       let bracketBalance = 0;
       let braceBalance = 0;
+      let openString: string | null = null;
 
       lines.forEach((line: string, lineIndex: number) => {
         const lineNumber = lineIndex + 1;
         const trimmedLine = line.trim();
 
         // Skip comments for string validation
-        const isComment = trimmedLine.startsWith('//');
+        const isComment = !openString && trimmedLine.startsWith('//');
 
         // Check for unclosed strings (only on lines that aren't comments)
         if (!isComment) {
-          const singleQuotes = (line.match(/'/g) || []).length;
-          const doubleQuotes = (line.match(/"/g) || []).length;
-          
-          if (singleQuotes % 2 !== 0) {
+          const scan = scanStrings(line, openString);
+          openString = scan.open;
+
+          if (scan.unclosedQuote === "'") {
             markers.push({
               severity: monaco.MarkerSeverity.Error,
               startLineNumber: lineNumber,
@@ -453,7 +684,7 @@ export function registerFluxoLanguage() {
             });
           }
           
-          if (doubleQuotes % 2 !== 0) {
+          if (scan.unclosedQuote === '"') {
             markers.push({
               severity: monaco.MarkerSeverity.Error,
               startLineNumber: lineNumber,
@@ -505,7 +736,7 @@ export function registerFluxoLanguage() {
         const assignmentMatch = trimmedLine.match(/^([a-zA-Z_]\w*)\s*=/);
         if (assignmentMatch && !trimmedLine.includes('local ') && !trimmedLine.includes('function')) {
           const varName = assignmentMatch[1];
-          const keywords = ['module', 'export', 'import', 'from', 'require', 'function', 'return', 'if', 'else', 'while', 'for', 'break', 'continue', 'local', 'true', 'false', 'null', 'undefined'];
+          const keywords = ['module', 'export', 'import', 'from', 'require', 'function', 'class', 'extends', 'return', 'if', 'else', 'match', 'case', 'while', 'for', 'in', 'break', 'continue', 'local', 'const', 'enum', 'try', 'catch', 'finally', 'throw', 'and', 'or', 'not', 'await', 'true', 'false', 'null', 'undefined'];
           
           if (!keywords.includes(varName)) {
             const hasLocalDeclaration = code.includes(`local ${varName}`);
@@ -595,11 +826,13 @@ export function registerFluxoLanguage() {
         // Validate immediately
         const markers = validateCode(model);
         monaco.editor.setModelMarkers(model, 'fluxo', markers);
+        scheduleTypeCheck(model);
 
         // Validate on content change
         model.onDidChangeContent(() => {
           const markers = validateCode(model);
           monaco.editor.setModelMarkers(model, 'fluxo', markers);
+          scheduleTypeCheck(model);
         });
       }
     });
@@ -614,8 +847,17 @@ export function registerFluxoLanguage() {
           'module': 'Defines a reusable module that can export functions and variables',
           'export': 'Exports functions or variables from a module for use in other files',
           'import': 'Imports functions or variables from another module',
-          'function': 'Declares a reusable function that can accept parameters and return values',
+          'function': 'Declares a reusable function: function f(a, b = 2, ...rest) { }. Arguments can be named: f(1, b = 3)',
+          'return': 'Ends the function with a value; return a, b gives the list [a, b], which a, b = f() spreads',
+          'class': 'Declares a class of methods taking self; Name(args) makes an instance and runs new(self, args)',
+          'extends': 'Inherits the methods of a parent class: class Dog extends Animal { }',
+          'self': 'The instance a method was called on: obj:method() and obj.method() both pass obj as self',
           'local': 'Declares a variable with local scope (recommended for all variables)',
+          'match': 'Runs the first case whose pattern matches: match v { case 1, 2 => ... case { kind = "x" } => ... case _ => ... }',
+          'case': 'A match case: literals, [a, ...rest], { key = pattern, name }, _ for anything, and an optional if guard',
+          'const': 'Declares a variable that cannot be reassigned: const MAX = 10',
+          'enum': 'Declares named values: enum Color { Red, Green }. Use Color.Red, compare with == or <, loop with for c in Color',
+          'freeze': 'Stops a table or list from being changed and returns it; values inside it are not frozen',
           'createButton': 'Creates an interactive button element (requires HTMLSupporter extension)',
           'createDiv': 'Creates a container div element (requires HTMLSupporter extension)',
           'createInput': 'Creates an input field (requires HTMLSupporter extension)',
@@ -623,6 +865,19 @@ export function registerFluxoLanguage() {
           'onChange': 'Adds a change event handler (requires HTMLSupporter extension)',
           'console.log': 'Prints debug messages to the console',
           'wait': 'Pauses execution for the specified number of seconds',
+          'input': 'Shows a prompt in the terminal and returns the line the user types',
+          'now': 'The current time in seconds since 1970-01-01 UTC',
+          'clock': 'Seconds since the program started; use it to measure durations',
+          'formatDate': 'Formats a time as UTC text: formatDate(time, "YYYY-MM-DD HH:mm:ss")',
+          'parseDate': 'Reads a date into seconds since 1970: parseDate("2024-05-01") or parseDate(text, pattern)',
+          'setTimeout': 'Runs a function once after a number of seconds; returns a timer with cancel()',
+          'setInterval': 'Runs a function every few seconds; returns a timer with cancel()',
+          'delay': 'Pauses for a number of seconds, like wait() without a block',
+          'spawn': 'Runs fn(...args) as a task: local task = spawn(fn, args). The task has cancel() and status()',
+          'await': 'Waits for a task started with spawn() and gives its result: await task, or await [a, b]',
+          'channel': 'Creates a channel with send(value), receive() and close(); for msg in ch { } reads until closed',
+          'pairs': 'Iterates over the keys and values of a table: for key, value in pairs(t) { }',
+          'range': 'Counts from start up to (not including) stop: range(stop), range(start, stop, step)',
         };
 
         const hoverText = helpTexts[word.word];
@@ -0,0 +1,76 @@
+// Client for streaming Fluxo runs
+// Opens a WebSocket per run and reports run-started, output and run-finished
+// events as the server produces them. Programs that call input() pause until
+// the answer is sent back with sendInput.
+
+import {
+  RUN_SOCKET_PATH,
+  type OutputMessage,
+  type RunClientMessage,
+  type RunRequest,
+  type RunServerMessage,
+  type RunFinishedStatus,
+} from "@shared/schema";
+
+// How a spawned task is named in the output panel and terminal
+export function taskLabel(task: NonNullable<OutputMessage['task']>): string {
+  return task.name === '<anonymous>' ? `task ${task.id}` : `${task.name} #${task.id}`;
+}
+
+export interface RunHandlers {
+  onStarted?: (runId: string) => void;
+  onOutput?: (message: OutputMessage) => void;
+  onInputRequest?: (prompt: string) => void;
+  onFinished?: (result: { status: RunFinishedStatus; error?: string; durationMs: number }) => void;
+}
+
+export interface RunHandle {
+  cancel: () => void;
+  sendInput: (value: string) => void;
+}
+
+export function startRun(request: RunRequest, handlers: RunHandlers): RunHandle {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const socket = new WebSocket(`${protocol}//${window.location.host}${RUN_SOCKET_PATH}`);
+  let finished = false;
+
+  const send = (message: RunClientMessage) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  const finish = (result: { status: RunFinishedStatus; error?: string; durationMs: number }) => {
+    if (finished) return;
+    finished = true;
+    handlers.onFinished?.(result);
+  };
+
+  socket.onopen = () => send({ type: 'start', request });
+
+  socket.onmessage = (event) => {
+    const message = JSON.parse(event.data) as RunServerMessage;
+    switch (message.type) {
+      case 'run-started':
+        handlers.onStarted?.(message.runId);
+        break;
+      case 'output':
+        handlers.onOutput?.(message.message);
+        break;
+      case 'input-request':
+        handlers.onInputRequest?.(message.prompt);
+        break;
+      case 'run-finished':
+        finish(message);
+        break;
+    }
+  };
+
+  // A socket that closes before run-finished means the connection was lost
+  socket.onclose = () => finish({ status: 'failed', error: 'Connection to the run was lost', durationMs: 0 });
+
+  return {
+    cancel: () => send({ type: 'cancel' }),
+    sendInput: (value) => send({ type: 'input', value }),
+  };
+}
@@ -49,7 +49,7 @@ export default function Docs() {
     basics: {
       id: "basics",
       title: "Language Basics",
-      keywords: ["variables", "functions", "local", "function", "basics", "syntax"],
+      keywords: ["variables", "functions", "local", "function", "basics", "lambda", "arrow", "anonymous", "callback", "syntax", "list", "table", "array", "and", "or", "not", "operators", "precedence", "string", "escape", "interpolation", "template", "multi-line"],
       content: (
         <div className="space-y-8">
           <section className="space-y-4">
@@ -106,6 +106,127 @@ local result = sum(1, 2, 3, 4, 5)
 console.log(result)  // Output: 15`}
               </pre>
             </div>
+            <p className="text-muted-foreground">
+              A rest parameter can follow regular ones, as in <code className="bg-muted px-2 py-1 rounded-md text-sm">function log(level, ...parts)</code>; it gets whatever arguments are left over.
+            </p>
+            <h3 className="text-xl font-semibold mt-6">Default Values and Named Arguments</h3>
+            <p className="text-muted-foreground">
+              A parameter can have a default value, used when a call leaves it out. Calls can also pass arguments by name after the positional ones.
+              Leaving out a parameter without a default, or passing more arguments than a function takes, is an error.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`function greet(name, greeting = "Hello", punctuation = "!") {
+  return greeting .. ", " .. name .. punctuation
+}
+
+console.log(greet("Ann"))                   // Hello, Ann!
+console.log(greet("Ann", punctuation = "?")) // Hello, Ann?
+greet()  // Runtime Error: greet is missing argument 'name'`}
+              </pre>
+            </div>
+            <h3 className="text-xl font-semibold mt-6">Multiple Return Values</h3>
+            <p className="text-muted-foreground">
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">return a, b</code> returns the list <code className="bg-muted px-2 py-1 rounded-md text-sm">[a, b]</code>. Assigning it to several variables spreads it over them.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`function bounds(numbers) {
+  return numbers[0], numbers[#numbers - 1]
+}
+
+local [low, high] = bounds([1, 5, 9])
+low, high = bounds([2, 4])`}
+              </pre>
+            </div>
+            <h3 className="text-xl font-semibold mt-6">Scope and Closures</h3>
+            <p className="text-muted-foreground">
+              A <code className="bg-muted px-2 py-1 rounded-md text-sm">local</code> is visible only inside the block that declares it.
+              Assigning to an existing name updates the nearest variable with that name. Functions remember the variables around them,
+              so they can keep state between calls.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`function makeCounter() {
+  local count = 0
+  function next() {
+    count = count + 1
+    return count
+  }
+  return next
+}
+
+local counter = makeCounter()
+counter()
+console.log(counter())  // Output: 2`}
+              </pre>
+            </div>
+            <h3 className="text-xl font-semibold mt-6">Functions as Values</h3>
+            <p className="text-muted-foreground">
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">function (x) {"{ }"}</code> and arrow functions such as <code className="bg-muted px-2 py-1 rounded-md text-sm">x =&gt; x * 2</code> create
+              functions without a name. Like any function, they can be stored in variables and tables, passed to other functions and returned.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`local square = function(x) { return x * x }
+local add = (a, b) => a + b
+
+function twice(f, value) {
+  return f(f(value))
+}
+console.log(twice(x => x + 3, 1))  // Output: 7
+
+local button = selectElement("#start")
+button.onClick(() => {
+  console.log("Started!")
+})
+button.trigger("onClick")  // Output: Started!`}
+              </pre>
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="text-2xl font-bold">Strings</h2>
+            <p className="text-muted-foreground">
+              Strings use double or single quotes and support the escapes <code className="bg-muted px-2 py-1 rounded-md text-sm">\n \t \r \0 \\ \" \' \` \$</code>,
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">\xHH</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">\uHHHH</code> and <code className="bg-muted px-2 py-1 rounded-md text-sm">{"\\u{1F600}"}</code>.
+              Triple quotes make a string that spans several lines. Backtick strings fill in <code className="bg-muted px-2 py-1 rounded-md text-sm">{"${expression}"}</code> with the value of the expression.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`console.log("Name:\\tFluxo\\nSmile: \\u{1F600}")
+
+local banner = """
+Welcome to Fluxo!
+Have fun."""
+
+local name = "Ann"
+local items = [1, 2, 3]
+console.log(\`Hello \${name}, you have \${#items} items\`)`}
+              </pre>
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="text-2xl font-bold">Lists and Tables</h2>
+            <p className="text-muted-foreground">
+              Lists hold ordered values and are indexed from 0. Tables map names to values. Both can be nested,
+              read with <code className="bg-muted px-2 py-1 rounded-md text-sm">.field</code> or <code className="bg-muted px-2 py-1 rounded-md text-sm">[index]</code> at any depth,
+              and changed in place. <code className="bg-muted px-2 py-1 rounded-md text-sm">#</code> gives the length of a list, string or table.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`local scores = [10, 20, 30]
+local player = { name = "Alice", hp = 100, items = ["sword"] }
+
+console.log(scores[0])          // Output: 10
+console.log(#scores)            // Output: 3
+
+player.hp = player.hp - 25
+player.items[#player.items] = "shield"  // Append
+console.log(player.items[1])    // Output: shield`}
+              </pre>
+            </div>
           </section>
 
           <section className="space-y-4">
@@ -119,7 +240,8 @@ console.log(result)  // Output: 15`}
 -   Subtraction
 *   Multiplication
 /   Division
-%   Modulo`}
+%   Modulo
+..  Join as text ("a" .. 1 is "a1")`}
                   </pre>
                 </div>
               </div>
@@ -136,6 +258,66 @@ console.log(result)  // Output: 15`}
                   </pre>
                 </div>
               </div>
+              <div>
+                <h3 className="text-lg font-semibold mb-2">Logical Operators</h3>
+                <div className="bg-card border border-border rounded-md p-4">
+                  <pre className="font-mono text-sm text-foreground">
+{`and  &&   Both are true
+or   ||   Either is true
+not  !    Negation`}
+                  </pre>
+                </div>
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold mb-2">Precedence (highest first)</h3>
+                <div className="bg-card border border-border rounded-md p-4">
+                  <pre className="font-mono text-sm text-foreground">
+{`not  -  #  ++  --   (unary)
+*  /  %
++  -
+..
+<  >  <=  >=
+==  !=
+and
+or`}
+                  </pre>
+                </div>
+              </div>
+            </div>
+            <p className="text-muted-foreground">
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">and</code> and <code className="bg-muted px-2 py-1 rounded-md text-sm">or</code> short-circuit:
+              the right side only runs when the left side does not decide the result. They return one of their operands, so
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">name or "guest"</code> gives a default value.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`if (hp > 0 and alive) {
+  console.log("Still in the game")
+}
+
+local label = nickname or "guest"`}
+              </pre>
+            </div>
+
+            <h3 className="text-xl font-semibold mt-6">Assignment Shortcuts</h3>
+            <p className="text-muted-foreground">
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">+= -= *= /= %= ..=</code> update a variable, field or list item in place.
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">++</code> and <code className="bg-muted px-2 py-1 rounded-md text-sm">--</code> add or subtract one;
+              before the name they give the new value, after it the old one. Several targets can be assigned at once; all values are evaluated first.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`local score = 10
+score += 5            // 15
+player.items[0] ..= "!"
+
+local i = 0
+i++                   // 1
+
+local a = 1
+local b = 2
+a, b = b, a           // swap: a is 2, b is 1`}
+              </pre>
             </div>
           </section>
         </div>
@@ -144,7 +326,7 @@ console.log(result)  // Output: 15`}
     builtInFunctions: {
       id: "built-in-functions",
       title: "Built-in Functions",
-      keywords: ["console", "log", "wait", "timing", "delay", "pause", "built-in", "builtin"],
+      keywords: ["console", "log", "wait", "timing", "delay", "pause", "input", "prompt", "built-in", "builtin", "time", "date", "now", "clock", "timer", "settimeout", "setinterval", "formatdate", "parsedate"],
       content: (
         <div className="space-y-8">
           <section className="space-y-4">
@@ -161,6 +343,19 @@ console.log("Multiple", "values", "work", "too")`}
             </div>
           </section>
 
+          <section className="space-y-4">
+            <h2 className="text-2xl font-bold">Reading Input</h2>
+            <p className="text-muted-foreground">
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">input(prompt)</code> shows the prompt in the Terminal and pauses the program until you type a line and press Enter. The line is returned as a string. Time spent waiting for an answer does not count towards the run's time limit, and pressing Stop ends the wait.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`local name = input("What is your name? ")
+console.log("Hello, " + name + "!")`}
+              </pre>
+            </div>
+          </section>
+
           <section className="space-y-4">
             <h2 className="text-2xl font-bold">Wait Function</h2>
             <p className="text-muted-foreground">
@@ -218,6 +413,67 @@ for (local i = 0; i < 5; i = i + 1) {
                 The <code className="bg-muted px-1 py-0.5 rounded-md">wait()</code> function uses callback-style blocks. After waiting for the specified duration (in seconds), it executes the code inside the curly braces. Decimal values allow for precise timing control.
               </p>
             </div>
+
+            <div className="bg-accent/10 border border-accent/20 rounded-md p-4 mt-4">
+              <p className="text-sm font-semibold mb-2">Time Limit</p>
+              <p className="text-sm text-muted-foreground">
+                A run started from the editor may take up to 60 seconds, and time spent in <code className="bg-muted px-1 py-0.5 rounded-md">wait()</code>, <code className="bg-muted px-1 py-0.5 rounded-md">delay()</code> and timers counts towards it. A wait that would go past the limit fails straight away. Other runs, such as those started through the HTTP API, default to 10 seconds unless the request sets a budget. Press Stop to end a run early.
+              </p>
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="text-2xl font-bold">Time and Timers</h2>
+            <p className="text-muted-foreground">
+              Times are measured in seconds. <code className="bg-muted px-2 py-1 rounded-md text-sm">now()</code> is the current time in seconds since 1970, and <code className="bg-muted px-2 py-1 rounded-md text-sm">clock()</code> counts
+              seconds since the program started, which makes it the right tool for measuring how long something takes.
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">delay(seconds)</code> pauses like <code className="bg-muted px-2 py-1 rounded-md text-sm">wait()</code> but needs no block.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`local start = clock()
+delay(0.5)
+console.log("Took", clock() - start, "seconds")`}
+              </pre>
+            </div>
+
+            <h3 className="text-xl font-semibold mt-6">Dates</h3>
+            <p className="text-muted-foreground">
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">formatDate(time, pattern)</code> turns a time into text and <code className="bg-muted px-2 py-1 rounded-md text-sm">parseDate(text, pattern)</code> reads it back.
+              Patterns use <code className="bg-muted px-2 py-1 rounded-md text-sm">YYYY</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">MM</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">DD</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">HH</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">mm</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">ss</code> and <code className="bg-muted px-2 py-1 rounded-md text-sm">SSS</code> (milliseconds);
+              the default is <code className="bg-muted px-2 py-1 rounded-md text-sm">YYYY-MM-DD HH:mm:ss</code>, and without a pattern <code className="bg-muted px-2 py-1 rounded-md text-sm">parseDate</code> also accepts ISO dates such as <code className="bg-muted px-2 py-1 rounded-md text-sm">2024-05-01T09:30:00Z</code>.
+              Dates are always in UTC, so Run and the HTML preview show the same result.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`console.log(formatDate(now(), "DD/MM/YYYY"))
+
+local launch = parseDate("2025-01-15 09:00:00")
+local days = (launch - parseDate("2025-01-01")) / 86400
+console.log(days, "days to go")  // 14.375 days to go`}
+              </pre>
+            </div>
+
+            <h3 className="text-xl font-semibold mt-6">Timers</h3>
+            <p className="text-muted-foreground">
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">setTimeout(fn, seconds)</code> runs a function once after a delay and <code className="bg-muted px-2 py-1 rounded-md text-sm">setInterval(fn, seconds)</code> runs it repeatedly.
+              Both return a timer; call its <code className="bg-muted px-2 py-1 rounded-md text-sm">cancel()</code> to stop it. A program keeps running until its timers are done, so always cancel an
+              interval, or the run stops when it reaches its time limit.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`local ticks = 0
+local timer = setInterval(() => {
+  ticks++
+  console.log("Tick", ticks)
+  if (ticks == 3) {
+    timer.cancel()
+  }
+}, 1)
+
+setTimeout(() => console.log("Half way"), 1.5)`}
+              </pre>
+            </div>
           </section>
         </div>
       ),
@@ -225,7 +481,7 @@ for (local i = 0; i < 5; i = i + 1) {
     controlFlow: {
       id: "control-flow",
       title: "Control Flow",
-      keywords: ["if", "else", "while", "for", "loop", "condition", "control"],
+      keywords: ["if", "else", "match", "case", "switch", "pattern", "destructuring", "while", "for", "loop", "condition", "control", "break", "continue", "label", "in", "pairs", "range", "iterator", "foreach", "try", "catch", "finally", "throw", "error"],
       content: (
         <div className="space-y-8">
           <section className="space-y-4">
@@ -245,6 +501,48 @@ if (age >= 18) {
               </pre>
             </div>
 
+            <h3 className="text-xl font-semibold mt-6">Match</h3>
+            <p className="text-muted-foreground">
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">match</code> compares a value against patterns and runs the first case that fits. A case body is a block or a single statement.
+              Names in a pattern capture the matching part of the value, <code className="bg-muted px-2 py-1 rounded-md text-sm">_</code> matches anything,
+              and <code className="bg-muted px-2 py-1 rounded-md text-sm">if</code> adds a condition to a case. If no case matches, nothing runs.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`match shape {
+  case 1, 2 => console.log("one or two")
+  case "none", null => console.log("nothing")
+  case Color.Red => console.log("red")
+  case [x, y] if x > y => console.log("falling pair")
+  case [first, ...rest] => console.log(first, "then", #rest, "more")
+  case { kind = "circle", radius } => {
+    console.log("circle of area", 3.14 * radius * radius)
+  }
+  case _ => console.log("something else")
+}`}
+              </pre>
+            </div>
+            <p className="text-muted-foreground">
+              A list pattern matches lists of exactly that length, unless it ends in <code className="bg-muted px-2 py-1 rounded-md text-sm">...rest</code>. A table pattern only looks at the keys it lists;
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">&#123; radius &#125;</code> is short for <code className="bg-muted px-2 py-1 rounded-md text-sm">&#123; radius = radius &#125;</code>.
+            </p>
+
+            <h3 className="text-xl font-semibold mt-6">Destructuring</h3>
+            <p className="text-muted-foreground">
+              The same patterns unpack values into variables and parameters. A value that does not fit the pattern is an error; a missing table key gives <code className="bg-muted px-2 py-1 rounded-md text-sm">undefined</code>.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`local { name, age } = { name = "Ann", age = 30 }
+local [first, ...others] = [1, 2, 3]
+
+function area({ width, height }) {
+  return width * height
+}
+console.log(area({ width = 2, height = 3 }))  // 6`}
+              </pre>
+            </div>
+
             <h3 className="text-xl font-semibold mt-6">While Loops</h3>
             <p className="text-muted-foreground">
               Repeat code while a condition is true.
@@ -266,11 +564,274 @@ while (count < 5) {
             </p>
             <div className="bg-card border border-border rounded-md p-4">
               <pre className="font-mono text-sm text-foreground">
-{`for (local i = 0; i < 10; i = i + 1) {
+{`for (local i = 0; i < 10; i++) {
   console.log("Iteration:", i)
 }`}
               </pre>
             </div>
+
+            <h3 className="text-xl font-semibold mt-6">For-Each Loops</h3>
+            <p className="text-muted-foreground">
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">for item in ...</code> walks through a list or the characters of a string; with two
+              variables you also get the index. <code className="bg-muted px-2 py-1 rounded-md text-sm">pairs(table)</code> gives each key and value,
+              and <code className="bg-muted px-2 py-1 rounded-md text-sm">range(start, stop, step)</code> counts up to (but not including) <code className="bg-muted px-2 py-1 rounded-md text-sm">stop</code>.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`for fruit in ["apple", "pear"] {
+  console.log(fruit)
+}
+
+for i, letter in "abc" {
+  console.log(i, letter)
+}
+
+for key, value in pairs({ name = "Ann", age = 30 }) {
+  console.log(key, "=", value)
+}
+
+for n in range(1, 10, 2) {
+  console.log(n)  // 1, 3, 5, 7, 9
+}`}
+              </pre>
+            </div>
+            <p className="text-muted-foreground">
+              Your own values can be looped over too. An iterator is a function that returns the next value on each call and
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">null</code> when it is done. A table becomes iterable by giving it an
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">iterator</code> function that returns an iterator; like a method, it gets the table as <code className="bg-muted px-2 py-1 rounded-md text-sm">self</code>. To fill two loop variables, return a list such as <code className="bg-muted px-2 py-1 rounded-md text-sm">[key, value]</code>.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`local countdown = {
+  from = 3,
+  iterator = function(self) {
+    local n = self.from + 1
+    return () => {
+      n--
+      if (n == 0) { return null }
+      return n
+    }
+  }
+}
+
+for n in countdown {
+  console.log(n)  // 3, 2, 1
+}`}
+              </pre>
+            </div>
+
+            <h3 className="text-xl font-semibold mt-6">Break and Continue</h3>
+            <p className="text-muted-foreground">
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">break</code> leaves a loop and <code className="bg-muted px-2 py-1 rounded-md text-sm">continue</code> skips
+              to its next iteration. Label a loop to target it from inside a nested loop.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`outer: for (local row = 0; row < 3; row = row + 1) {
+  for (local col = 0; col < 3; col = col + 1) {
+    if (col == row) { continue outer }
+    if (row == 2) { break outer }
+    console.log(row, col)
+  }
+}`}
+              </pre>
+            </div>
+
+            <h3 className="text-xl font-semibold mt-6">Handling Errors</h3>
+            <p className="text-muted-foreground">
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">throw</code> raises an error with any value. A <code className="bg-muted px-2 py-1 rounded-md text-sm">catch</code> block
+              receives a table with <code className="bg-muted px-2 py-1 rounded-md text-sm">message</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">file</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">line</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">stack</code> and
+              the thrown <code className="bg-muted px-2 py-1 rounded-md text-sm">value</code>. Errors raised by Fluxo itself, like a missing module, can be caught too.
+              The <code className="bg-muted px-2 py-1 rounded-md text-sm">finally</code> block always runs. Running out of execution budget and pressing Stop cannot be caught.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`function divide(a, b) {
+  if (b == 0) { throw "Cannot divide by zero" }
+  return a / b
+}
+
+try {
+  divide(1, 0)
+} catch (err) {
+  console.log("Failed:", err.message, "at line", err.line)
+} finally {
+  console.log("Done")
+}`}
+              </pre>
+            </div>
+          </section>
+        </div>
+      ),
+    },
+    classes: {
+      id: "classes",
+      title: "Classes",
+      keywords: ["class", "classes", "extends", "inheritance", "self", "method", "methods", "object", "instance", "new", "tostring"],
+      content: (
+        <div className="space-y-8">
+          <section className="space-y-4">
+            <h2 className="text-2xl font-bold">Classes</h2>
+            <p className="text-muted-foreground">
+              A class groups methods that work on an instance. Every method takes the instance as its first parameter, <code className="bg-muted px-2 py-1 rounded-md text-sm">self</code>.
+              Call the class like a function to make an instance; its <code className="bg-muted px-2 py-1 rounded-md text-sm">new</code> method receives the new instance and the arguments.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`class Counter {
+  function new(self, start) {
+    self.count = start
+  }
+  function add(self, amount) {
+    self.count += amount
+    return self.count
+  }
+}
+
+local counter = Counter(10)
+counter:add(5)           // obj:method() passes obj as self
+console.log(counter.add(1))  // 16, obj.method() does too`}
+              </pre>
+            </div>
+            <p className="text-muted-foreground">
+              Instances are tables, so fields can be read, set and listed with <code className="bg-muted px-2 py-1 rounded-md text-sm">pairs</code>. On a plain table,
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">t:f(x)</code> is the same as <code className="bg-muted px-2 py-1 rounded-md text-sm">t.f(t, x)</code>.
+            </p>
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="text-2xl font-bold">Inheritance</h2>
+            <p className="text-muted-foreground">
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">class Dog extends Animal</code> gives Dog every method of Animal that it does not define itself.
+              A parent's method is reached through the parent class and takes <code className="bg-muted px-2 py-1 rounded-md text-sm">self</code> explicitly, e.g. <code className="bg-muted px-2 py-1 rounded-md text-sm">Animal.new(self, name)</code>.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`class Animal {
+  function new(self, name) {
+    self.name = name
+  }
+  function speak(self) {
+    return self.name .. " makes a sound"
+  }
+  function tostring(self) {
+    return "<" .. self.name .. ">"
+  }
+}
+
+class Dog extends Animal {
+  function new(self, name, breed) {
+    Animal.new(self, name)
+    self.breed = breed
+  }
+  function speak(self) {
+    return self.name .. " barks"
+  }
+}
+
+local rex = Dog("Rex", "beagle")
+console.log(rex:speak())  // Rex barks
+console.log(rex)          // <Rex>`}
+              </pre>
+            </div>
+            <p className="text-muted-foreground">
+              A <code className="bg-muted px-2 py-1 rounded-md text-sm">tostring(self)</code> method decides how an instance reads in <code className="bg-muted px-2 py-1 rounded-md text-sm">console.log</code>, string joins and templates. It must return a string.
+              Without one, an instance prints as its class name followed by its fields.
+            </p>
+          </section>
+        </div>
+      ),
+    },
+    constants: {
+      id: "constants",
+      title: "Constants & Enums",
+      keywords: ["const", "constant", "constants", "enum", "enums", "freeze", "immutable", "readonly"],
+      content: (
+        <div className="space-y-8">
+          <section className="space-y-4">
+            <h2 className="text-2xl font-bold">Constants</h2>
+            <p className="text-muted-foreground">
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">const</code> declares a variable like <code className="bg-muted px-2 py-1 rounded-md text-sm">local</code> does, but it must be given a value
+              and assigning to it again is a runtime error. <code className="bg-muted px-2 py-1 rounded-md text-sm">freeze(t)</code> stops a table or list from being changed and returns it.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`const MAX_HP = 100
+MAX_HP = 50        // Runtime Error: Cannot assign to constant 'MAX_HP'
+
+const SETTINGS = freeze({ volume = 5 })
+SETTINGS.volume = 9   // Runtime Error: Cannot change a frozen table`}
+              </pre>
+            </div>
+            <p className="text-muted-foreground">
+              A constant binding can still hold a table whose fields change; freeze the table as well to prevent that. Freezing is shallow: tables inside a frozen table can still be changed.
+            </p>
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="text-2xl font-bold">Enums</h2>
+            <p className="text-muted-foreground">
+              An enum is a fixed set of named values. Members are compared with <code className="bg-muted px-2 py-1 rounded-md text-sm">==</code>, ordered by their position with <code className="bg-muted px-2 py-1 rounded-md text-sm">&lt;</code> and <code className="bg-muted px-2 py-1 rounded-md text-sm">&gt;</code>,
+              and have a <code className="bg-muted px-2 py-1 rounded-md text-sm">name</code> and a <code className="bg-muted px-2 py-1 rounded-md text-sm">value</code> (their position, from 0).
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`enum Color { Red, Green, Blue }
+
+local c = Color.Green
+console.log(c)                  // Color.Green
+console.log(c == Color.Green)   // true
+console.log(c < Color.Blue)     // true
+console.log(c.name, c.value)    // Green 1
+console.log(#Color)             // 3
+
+for color in Color {
+  console.log(color.name)
+}`}
+              </pre>
+            </div>
+            <p className="text-muted-foreground">
+              An enum's name can be used as a type annotation, e.g. <code className="bg-muted px-2 py-1 rounded-md text-sm">local c: Color = Color.Red</code>.
+            </p>
+          </section>
+        </div>
+      ),
+    },
+    typeAnnotations: {
+      id: "type-annotations",
+      title: "Type Annotations",
+      keywords: ["type", "types", "annotation", "annotations", "checker", "number", "string", "boolean", "any", "static", "type error"],
+      content: (
+        <div className="space-y-8">
+          <section className="space-y-4">
+            <h2 className="text-2xl font-bold">Type Annotations</h2>
+            <p className="text-muted-foreground">
+              Variables, parameters and return values can say what type they hold. Annotations are optional: code without them runs exactly as before.
+              Before a program runs, Fluxo checks the annotated parts of it and of the modules it imports. Type errors are shown in the Output panel and
+              underlined in the editor, and the program does not start until they are fixed.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`local hp: number = 10
+local title: string? = null      // string or null
+
+function heal(amount: number): number {
+  return hp + amount
+}
+
+heal("ten")       // Type Error: Argument 1 of heal must be number, got string
+hp = "full"       // Type Error: 'hp' is declared as number but assigned string
+console.log(hp - "x")  // Type Error: Cannot apply '-' to number and string`}
+              </pre>
+            </div>
+            <ul className="text-muted-foreground space-y-1 list-disc list-inside">
+              <li>Types are <code className="bg-muted px-2 py-1 rounded-md text-sm">number</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">string</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">boolean</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">null</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">list</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">table</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">function</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">any</code>, or a class name</li>
+              <li><code className="bg-muted px-2 py-1 rounded-md text-sm">number | string</code> accepts either type, and <code className="bg-muted px-2 py-1 rounded-md text-sm">number?</code> is short for <code className="bg-muted px-2 py-1 rounded-md text-sm">number | null</code></li>
+              <li>An instance fits its class, any parent class, and <code className="bg-muted px-2 py-1 rounded-md text-sm">table</code>. In methods, <code className="bg-muted px-2 py-1 rounded-md text-sm">self</code> has the class as its type</li>
+              <li>A rest parameter's annotation is the type of each argument it collects: in <code className="bg-muted px-2 py-1 rounded-md text-sm">function sum(...nums: number)</code>, every extra argument must be a number and <code className="bg-muted px-2 py-1 rounded-md text-sm">nums</code> is a list</li>
+              <li>Annotated functions exported from a module are checked where they are imported</li>
+              <li>Whatever the checker cannot work out is treated as <code className="bg-muted px-2 py-1 rounded-md text-sm">any</code> and is never an error</li>
+            </ul>
           </section>
         </div>
       ),
@@ -278,7 +839,7 @@ while (count < 5) {
     modules: {
       id: "modules",
       title: "Modules",
-      keywords: ["module", "export", "import", "import from", "organize", "selective"],
+      keywords: ["module", "export", "import", "import from", "organize", "selective", "circular", "cycle"],
       content: (
         <div className="space-y-8">
           <section className="space-y-4">
@@ -400,18 +961,212 @@ console.log(config.version)   // Output: 1.0.0`}
               </ul>
             </div>
 
+            <h3 className="text-xl font-semibold mt-6">Circular Imports</h3>
+            <p className="text-muted-foreground">
+              Each module file runs once, the first time it is imported, and every later import reuses it. When two modules import each other, the second import happens while the first module is still loading and has no exports yet. <code className="bg-muted px-2 py-1 rounded-md text-sm">import from</code> and <code className="bg-muted px-2 py-1 rounded-md text-sm">require</code> report this as an error naming the whole cycle.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`// a.fxm imports b.fxm, which imports a.fxm again
+Import Error: Circular import: /a.fxm -> /b.fxm -> /a.fxm`}
+              </pre>
+            </div>
+            <p className="text-muted-foreground">
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">import &lt;identifier&gt; "path"</code> is allowed in a cycle: the object starts out empty and is filled once the other module has finished loading. Use it inside functions, not at the top level of the module.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`// b.fxm
+module b {
+  import a "a.fxm"           // a.fxm is still loading here
+
+  export function greet() {
+    return "Hello from " + a.name()  // Fine: runs after a.fxm has loaded
+  }
+}`}
+              </pre>
+            </div>
+
             <div className="bg-primary/10 border border-primary/20 rounded-md p-4 mt-6">
               <p className="text-sm font-semibold mb-2">Module File Rules</p>
               <ul className="text-sm text-muted-foreground space-y-1 list-disc list-inside">
                 <li>Module files (.fxm) can use both <code className="bg-muted px-1 py-0.5 rounded-md">export &#123; &#125;</code> and <code className="bg-muted px-1 py-0.5 rounded-md">import from</code></li>
                 <li>Regular scripts (.fxo) can use <code className="bg-muted px-1 py-0.5 rounded-md">import from</code> but NOT <code className="bg-muted px-1 py-0.5 rounded-md">export &#123; &#125;</code></li>
                 <li><code className="bg-muted px-1 py-0.5 rounded-md">export function</code> works in both .fxm and .fxo files</li>
+                <li>Classes are exported the same ways: <code className="bg-muted px-1 py-0.5 rounded-md">export class Name</code>, or by name in <code className="bg-muted px-1 py-0.5 rounded-md">export &#123; &#125;</code></li>
+                <li>Importers get their own copy of an exported variable, and of a constant unless its value is frozen. Enums and frozen constants are shared as-is. Imported constants stay constant in the importing file</li>
+                <li>Importing a folder loads its module files in alphabetical order</li>
               </ul>
             </div>
           </section>
         </div>
       ),
     },
+    tasks: {
+      id: "tasks",
+      title: "Tasks and Channels",
+      keywords: ["spawn", "await", "task", "tasks", "channel", "concurrent", "concurrency", "parallel", "cancel", "send", "receive"],
+      content: (
+        <div className="space-y-8">
+          <section className="space-y-4">
+            <h2 className="text-2xl font-bold">Tasks</h2>
+            <p className="text-muted-foreground">
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">spawn(fn, ...args)</code> runs a function as a task alongside the rest of your program and returns a handle.
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">await task</code> waits for the task and gives back its return value; <code className="bg-muted px-2 py-1 rounded-md text-sm">await [a, b]</code> waits for several and gives a list.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`function download(name, seconds) {
+  delay(seconds)
+  return name + " ready"
+}
+
+local first = spawn(download, "photos", 1)
+local second = spawn(download, "music", 0.5)
+console.log(await [first, second])  // both finish after about 1 second`}
+              </pre>
+            </div>
+            <p className="text-muted-foreground">
+              Tasks take turns: a task keeps running until it waits (with <code className="bg-muted px-2 py-1 rounded-md text-sm">delay</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">wait</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">await</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">input</code> or a channel),
+              and then another task carries on. Code between two waits is never interrupted, so tasks can safely share variables. A task that never waits keeps the others waiting.
+            </p>
+            <ul className="text-muted-foreground space-y-1 list-disc list-inside">
+              <li><code className="bg-muted px-2 py-1 rounded-md text-sm">task.cancel()</code> stops a task the next time it runs; awaiting a cancelled task raises an error</li>
+              <li><code className="bg-muted px-2 py-1 rounded-md text-sm">task.status()</code> is <code className="bg-muted px-2 py-1 rounded-md text-sm">"running"</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">"completed"</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">"failed"</code> or <code className="bg-muted px-2 py-1 rounded-md text-sm">"cancelled"</code></li>
+              <li>If a task fails, <code className="bg-muted px-2 py-1 rounded-md text-sm">await</code> raises its error so you can catch it. Errors in tasks nobody awaits are shown in the Output panel</li>
+              <li>The program finishes once every task has finished or been cancelled. Output from each task is labelled, and the Output panel can show one task at a time</li>
+            </ul>
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="text-2xl font-bold">Channels</h2>
+            <p className="text-muted-foreground">
+              A channel passes messages from one task to another. <code className="bg-muted px-2 py-1 rounded-md text-sm">send(value)</code> adds a message, <code className="bg-muted px-2 py-1 rounded-md text-sm">receive()</code> waits for the next one,
+              and <code className="bg-muted px-2 py-1 rounded-md text-sm">close()</code> says no more are coming. After a channel is closed and empty, <code className="bg-muted px-2 py-1 rounded-md text-sm">receive()</code> gives <code className="bg-muted px-2 py-1 rounded-md text-sm">null</code>, so a for-in loop over a channel ends by itself.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`local jobs = channel()
+
+spawn(() => {
+  for n in range(1, 4) {
+    jobs.send(n)
+    delay(0.2)
+  }
+  jobs.close()
+})
+
+for job in jobs {
+  console.log("Working on job", job)
+}
+console.log("All jobs done")`}
+              </pre>
+            </div>
+          </section>
+        </div>
+      ),
+    },
+    standardLibrary: {
+      id: "standard-library",
+      title: "Standard Library",
+      keywords: ["std", "standard", "library", "string", "math", "list", "table", "json", "random", "seed", "sort", "map", "filter", "reduce", "split", "format"],
+      content: (
+        <div className="space-y-8">
+          <section className="space-y-4">
+            <h2 className="text-2xl font-bold">Standard Library</h2>
+            <p className="text-muted-foreground">
+              Fluxo ships with built-in modules for everyday tasks. Import them like any other module, using the <code className="bg-muted px-2 py-1 rounded-md text-sm">std:</code> prefix instead of a file path.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`import str "std:string"
+import from "std:list" { map, filter }
+
+local words = str.split("fluxo is fun", " ")
+console.log(map(words, (word) => str.upper(word)))  // ["FLUXO", "IS", "FUN"]`}
+              </pre>
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="text-2xl font-bold">std:string</h2>
+            <ul className="text-muted-foreground space-y-1 list-disc list-inside">
+              <li><code className="bg-muted px-2 py-1 rounded-md text-sm">split(text, separator)</code> and <code className="bg-muted px-2 py-1 rounded-md text-sm">join(list, separator)</code>. Splitting with no separator gives the characters</li>
+              <li><code className="bg-muted px-2 py-1 rounded-md text-sm">trim</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">upper</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">lower</code> and <code className="bg-muted px-2 py-1 rounded-md text-sm">repeat(text, count)</code></li>
+              <li><code className="bg-muted px-2 py-1 rounded-md text-sm">replace(text, search, replacement)</code> replaces every occurrence</li>
+              <li><code className="bg-muted px-2 py-1 rounded-md text-sm">find(text, search, start)</code> gives the position of the first match, or -1. <code className="bg-muted px-2 py-1 rounded-md text-sm">contains</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">startsWith</code> and <code className="bg-muted px-2 py-1 rounded-md text-sm">endsWith</code> give true or false</li>
+              <li><code className="bg-muted px-2 py-1 rounded-md text-sm">format(template, ...values)</code> fills each <code className="bg-muted px-2 py-1 rounded-md text-sm">&#123;&#125;</code> in turn, or <code className="bg-muted px-2 py-1 rounded-md text-sm">&#123;0&#125;</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">&#123;1&#125;</code> by position</li>
+            </ul>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`console.log(str.format("{} scored {} points", "Ann", 42))
+console.log(str.replace("a-b-c", "-", "+"))  // a+b+c`}
+              </pre>
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="text-2xl font-bold">std:math</h2>
+            <p className="text-muted-foreground">
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">floor</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">ceil</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">round</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">abs</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">sqrt</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">pow</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">min</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">max</code> and the constants <code className="bg-muted px-2 py-1 rounded-md text-sm">pi</code> and <code className="bg-muted px-2 py-1 rounded-md text-sm">huge</code> (infinity).
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">random()</code> gives a number from 0 up to 1, <code className="bg-muted px-2 py-1 rounded-md text-sm">random(max)</code> a whole number from 1 to max and <code className="bg-muted px-2 py-1 rounded-md text-sm">random(min, max)</code> one from min to max.
+              Call <code className="bg-muted px-2 py-1 rounded-md text-sm">seed(n)</code> first to get the same numbers on every run.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`import math "std:math"
+
+math.seed(7)
+local roll = math.random(6)
+console.log("You rolled", roll)`}
+              </pre>
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="text-2xl font-bold">std:list and std:table</h2>
+            <p className="text-muted-foreground">
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">std:list</code> has <code className="bg-muted px-2 py-1 rounded-md text-sm">push</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">pop</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">map</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">filter</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">reduce</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">sort</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">slice</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">contains</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">indexOf</code> and <code className="bg-muted px-2 py-1 rounded-md text-sm">reverse</code>.
+              Callbacks receive the item and its index. <code className="bg-muted px-2 py-1 rounded-md text-sm">sort</code> changes the list itself; give it a compare function returning a negative number when the first value goes first.
+            </p>
+            <p className="text-muted-foreground">
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">std:table</code> has <code className="bg-muted px-2 py-1 rounded-md text-sm">keys</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">values</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">has</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">remove</code>, <code className="bg-muted px-2 py-1 rounded-md text-sm">size</code> and <code className="bg-muted px-2 py-1 rounded-md text-sm">merge</code>.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`import list "std:list"
+import table "std:table"
+
+local scores = [40, 95, 72]
+list.sort(scores, (a, b) => b - a)
+console.log(scores)                                 // [95, 72, 40]
+console.log(list.reduce(scores, (sum, s) => sum + s, 0))  // 207
+
+local settings = table.merge({ theme = "dark" }, { font = 14 })
+console.log(table.keys(settings))                   // ["theme", "font"]`}
+              </pre>
+            </div>
+          </section>
+
+          <section className="space-y-4">
+            <h2 className="text-2xl font-bold">std:json</h2>
+            <p className="text-muted-foreground">
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">encode(value, indent)</code> turns tables, lists, strings, numbers and booleans into JSON text; pass an indent to pretty-print.
+              <code className="bg-muted px-2 py-1 rounded-md text-sm">decode(text)</code> turns JSON text back into Fluxo values.
+            </p>
+            <div className="bg-card border border-border rounded-md p-4">
+              <pre className="font-mono text-sm text-foreground">
+{`import json "std:json"
+
+local text = json.encode({ name = "Ann", tags = ["admin"] })
+local user = json.decode(text)
+console.log(user.tags[0])  // admin`}
+              </pre>
+            </div>
+          </section>
+        </div>
+      ),
+    },
     htmlSupport: {
       id: "html-support",
       title: "HTML Support",
@@ -2,8 +2,9 @@ import { useState, useCallback, useEffect, useRef } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import type { FileNode, WorkspaceState } from "@/lib/local-storage";
-import type { OutputMessage } from "@shared/schema";
+import { IDE_EXECUTION_BUDGET, type OutputMessage } from "@shared/schema";
 import { localStorageService } from "@/lib/local-storage";
+import { startRun, type RunHandle } from "@/lib/run-client";
 import { FileExplorer } from "@/components/ide/file-explorer";
 import { EditorPanel } from "@/components/ide/editor-panel";
 import { OutputPanel } from "@/components/ide/output-panel";
@@ -21,7 +22,12 @@ export default function IDE() {
   const [unsavedFiles, setUnsavedFiles] = useState<Set<string>>(new Set());
   const [output, setOutput] = useState<OutputMessage[]>([]);
   const [isRunning, setIsRunning] = useState(false);
+  // Prompt of the input() call the running program is waiting on
+  const [inputPrompt, setInputPrompt] = useState<string | null>(null);
+  const [revealTarget, setRevealTarget] = useState<{ path: string; line: number; column?: number } | null>(null);
   const autoSaveTimeouts = useRef<Map<string, NodeJS.Timeout>>(new Map());
+  // Server-side run in progress, so Stop can cancel it
+  const currentRun = useRef<RunHandle | null>(null);
   const lastSavedContent = useRef<Map<string, string>>(new Map());
 
   const { data: extensions = [] } = useQuery<Array<{ id: string; enabled: boolean }>>({
@@ -261,38 +267,48 @@ export default function IDE() {
           }
         }
         
-        // Execute all workspace files via backend API
-        const response = await apiRequest('POST', '/api/execute-workspace', {
-          files: fluxoFiles,
-          entryPoint: activeTab,
-        });
-        
-        const result = await response.json();
-        
-        setOutput(result.output || []);
-        
-        if (result.error) {
-          toast({
-            title: "Execution Error",
-            description: result.error,
-            variant: "destructive",
-          });
-          setIsRunning(false);
-        } else if (result.output && result.output.length === 0) {
-          setOutput([{
-            id: crypto.randomUUID(),
-            type: 'log',
-            message: 'Code executed successfully (no output)',
-            timestamp: Date.now(),
-          }]);
-        }
-        
-        toast({
-          title: "Workspace Running",
-          description: `Executed ${fluxoFiles.length} file(s). Click Stop to halt execution.`,
+        // Execute all workspace files on the backend, streaming output as it is produced
+        let receivedOutput = false;
+        currentRun.current = startRun({ kind: 'workspace', files: fluxoFiles, entryPoint: activeTab, budget: IDE_EXECUTION_BUDGET }, {
+          onOutput: (message) => {
+            receivedOutput = true;
+            setOutput(prev => [...prev, message]);
+          },
+          onInputRequest: (prompt) => setInputPrompt(prompt),
+          onFinished: ({ status, error }) => {
+            currentRun.current = null;
+            setInputPrompt(null);
+            setIsRunning(false);
+
+            if (status === 'failed') {
+              toast({
+                title: "Execution Error",
+                description: error || "Execution failed",
+                variant: "destructive",
+              });
+              return;
+            }
+
+            if (!receivedOutput) {
+              setOutput([{
+                id: crypto.randomUUID(),
+                type: 'log',
+                message: 'Code executed successfully (no output)',
+                timestamp: Date.now(),
+              }]);
+            }
+
+            if (status === 'completed') {
+              toast({
+                title: "Workspace Executed",
+                description: `Executed ${fluxoFiles.length} file(s).`,
+              });
+            }
+          },
         });
       }
     } catch (error) {
+      currentRun.current = null;
       toast({
         title: "Error",
         description: "Failed to execute code",
@@ -302,7 +318,18 @@ export default function IDE() {
     }
   }, [activeTab, workspace, fileContents, toast]);
 
+  const submitInput = useCallback((value: string) => {
+    setInputPrompt(null);
+    currentRun.current?.sendInput(value);
+  }, []);
+
   const stopCode = useCallback(() => {
+    if (currentRun.current) {
+      // The server stops the run and reports it in the run's output
+      currentRun.current.cancel();
+      return;
+    }
+
     setIsRunning(false);
     setOutput(prev => [...prev, {
       id: crypto.randomUUID(),
@@ -314,6 +341,9 @@ export default function IDE() {
 
   const handleSourceClick = useCallback((filePath: string, line?: number, column?: number) => {
     openFile(filePath);
+    if (line) {
+      setRevealTarget({ path: filePath, line, column });
+    }
     toast({
       title: "Opened file",
       description: `${filePath.split('/').pop()}${line ? ` at line ${line}` : ''}`,
@@ -419,6 +449,7 @@ export default function IDE() {
                 onTabClick={setActiveTab}
                 onTabClose={closeTab}
                 onContentChange={updateFileContent}
+                revealTarget={revealTarget}
               />
             </ResizablePanel>
 
@@ -440,7 +471,7 @@ export default function IDE() {
         <ResizableHandle />
 
         <ResizablePanel defaultSize={25} minSize={15} maxSize={50}>
-          <Terminal />
+          <Terminal runOutput={output} inputPrompt={inputPrompt} onInputSubmit={submitInput} />
         </ResizablePanel>
       </ResizablePanelGroup>
     </div>
@@ -0,0 +1,473 @@
+// Fluxo abstract syntax tree
+// Every node records the line/column of the token it starts at so the
+// interpreter can report errors against the original source.
+
+export interface NodeLocation {
+  line: number;
+  column: number;
+}
+
+// ---------------------------------------------------------------------------
+// Expressions
+// ---------------------------------------------------------------------------
+
+export interface NumberLiteral extends NodeLocation {
+  type: 'NumberLiteral';
+  value: number;
+}
+
+export interface StringLiteral extends NodeLocation {
+  type: 'StringLiteral';
+  value: string;
+}
+
+// `Hello ${name}`: literal text interleaved with embedded expressions
+export interface TemplateLiteral extends NodeLocation {
+  type: 'TemplateLiteral';
+  parts: (string | Expression)[];
+}
+
+export interface BooleanLiteral extends NodeLocation {
+  type: 'BooleanLiteral';
+  value: boolean;
+}
+
+export interface NullLiteral extends NodeLocation {
+  type: 'NullLiteral';
+}
+
+export interface UndefinedLiteral extends NodeLocation {
+  type: 'UndefinedLiteral';
+}
+
+export interface Identifier extends NodeLocation {
+  type: 'Identifier';
+  name: string;
+}
+
+export interface MemberExpression extends NodeLocation {
+  type: 'MemberExpression';
+  object: Expression;
+  property: string;
+}
+
+// obj[index]
+export interface IndexExpression extends NodeLocation {
+  type: 'IndexExpression';
+  object: Expression;
+  index: Expression;
+}
+
+// `number`, `Player`, `string | null`, or `number?` (short for number | null).
+// Annotations are only read by the type checker; the interpreter ignores them.
+export interface TypeAnnotation extends NodeLocation {
+  types: string[];  // Members of the union
+}
+
+// A function parameter: `name`, `name: type`, or a pattern such as { x, y }
+// that the argument is destructured with, optionally followed by `= default`
+export interface Parameter extends NodeLocation {
+  name: string;  // For a pattern, how it reads in messages
+  pattern?: ListPattern | TablePattern;
+  typeAnnotation?: TypeAnnotation;
+  defaultValue?: Expression;  // Evaluated on each call that leaves the parameter out
+}
+
+// function (a, b) { ... } or an arrow function: (a, b) => a + b, x => { ... }.
+// An arrow with an expression body gets a single return statement as its body.
+export interface FunctionExpression extends NodeLocation {
+  type: 'FunctionExpression';
+  name?: string;  // Taken from `local name = function ...`, for stack traces
+  params: Parameter[];
+  hasRestParam: boolean;  // The last parameter (...rest) collects the remaining arguments
+  returnType?: TypeAnnotation;
+  body: Statement[];
+}
+
+// [1, 2, 3]
+export interface ListLiteral extends NodeLocation {
+  type: 'ListLiteral';
+  elements: Expression[];
+}
+
+// { name = "x", ["computed"] = 1 }
+export interface TableEntry extends NodeLocation {
+  key: string | Expression;
+  value: Expression;
+}
+
+export interface TableLiteral extends NodeLocation {
+  type: 'TableLiteral';
+  entries: TableEntry[];
+}
+
+// f(x, y, scale = 2): named arguments come after the positional ones
+export interface CallExpression extends NodeLocation {
+  type: 'CallExpression';
+  callee: Expression;
+  args: Expression[];
+  namedArgs: NamedArgument[];
+}
+
+// obj:method(args) calls `method` with obj as its first argument (self)
+export interface MethodCallExpression extends NodeLocation {
+  type: 'MethodCallExpression';
+  object: Expression;
+  method: string;
+  args: Expression[];
+  namedArgs: NamedArgument[];
+}
+
+export interface NamedArgument extends NodeLocation {
+  name: string;
+  value: Expression;
+}
+
+// `..` joins the text of both sides, whatever their types
+export type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '..' | '==' | '!=' | '<' | '>' | '<=' | '>=';
+
+export interface BinaryExpression extends NodeLocation {
+  type: 'BinaryExpression';
+  operator: BinaryOperator;
+  left: Expression;
+  right: Expression;
+}
+
+// `&&` and `||` are parsed as `and` and `or`
+export type LogicalOperator = 'and' | 'or';
+
+// Kept apart from BinaryExpression because the right side is only evaluated
+// when the left side does not already decide the result
+export interface LogicalExpression extends NodeLocation {
+  type: 'LogicalExpression';
+  operator: LogicalOperator;
+  left: Expression;
+  right: Expression;
+}
+
+// ++x / x++ / --x / x--
+export interface UpdateExpression extends NodeLocation {
+  type: 'UpdateExpression';
+  operator: '++' | '--';
+  prefix: boolean;
+  argument: AssignmentTarget;
+}
+
+// `!` is parsed as `not`
+export type UnaryOperator = '-' | '#' | 'not';
+
+export interface UnaryExpression extends NodeLocation {
+  type: 'UnaryExpression';
+  operator: UnaryOperator;
+  argument: Expression;
+}
+
+// `await task` waits for a task started with spawn() and gives its result;
+// `await [a, b]` waits for each task in the list
+export interface AwaitExpression extends NodeLocation {
+  type: 'AwaitExpression';
+  argument: Expression;
+}
+
+export type Expression =
+  | NumberLiteral
+  | StringLiteral
+  | TemplateLiteral
+  | BooleanLiteral
+  | NullLiteral
+  | UndefinedLiteral
+  | Identifier
+  | MemberExpression
+  | IndexExpression
+  | ListLiteral
+  | TableLiteral
+  | CallExpression
+  | MethodCallExpression
+  | FunctionExpression
+  | BinaryExpression
+  | LogicalExpression
+  | UnaryExpression
+  | UpdateExpression
+  | AwaitExpression;
+
+// ---------------------------------------------------------------------------
+// Patterns
+// ---------------------------------------------------------------------------
+// Used by match cases, `local { a, b } = t` and destructured parameters.
+
+// _ matches anything
+export interface WildcardPattern extends NodeLocation {
+  type: 'WildcardPattern';
+}
+
+// A name matches anything and binds the value to it
+export interface BindingPattern extends NodeLocation {
+  type: 'BindingPattern';
+  name: string;
+}
+
+// A literal or a dotted name such as Color.Red, compared with ==
+export interface ValuePattern extends NodeLocation {
+  type: 'ValuePattern';
+  value: Expression;
+}
+
+// [first, second] matches lists of exactly two items; [first, ...rest] any
+// list with at least one
+export interface ListPattern extends NodeLocation {
+  type: 'ListPattern';
+  elements: Pattern[];
+  rest?: string;
+}
+
+// { kind = "circle", radius } matches tables whose listed keys match; a bare
+// name is short for name = name. Other keys are ignored.
+export interface TablePattern extends NodeLocation {
+  type: 'TablePattern';
+  entries: TablePatternEntry[];
+}
+
+export interface TablePatternEntry extends NodeLocation {
+  key: string;
+  value: Pattern;
+}
+
+export type Pattern = WildcardPattern | BindingPattern | ValuePattern | ListPattern | TablePattern;
+
+// ---------------------------------------------------------------------------
+// Statements
+// ---------------------------------------------------------------------------
+
+export interface ModuleDeclaration extends NodeLocation {
+  type: 'ModuleDeclaration';
+  name: string;
+  body: Statement[];
+}
+
+export interface ModuleFolderImport extends NodeLocation {
+  type: 'ModuleFolderImport';
+  folderPath: string;
+  alias: string;
+}
+
+// import from "path" { a, b }  /  import { a, b } from "path"
+export interface ImportFromStatement extends NodeLocation {
+  type: 'ImportFromStatement';
+  source: string;
+  names: string[];
+}
+
+// import alias "path"  /  import alias pathVariable
+export interface ImportAllStatement extends NodeLocation {
+  type: 'ImportAllStatement';
+  identifier: string;
+  source: StringLiteral | Identifier;
+}
+
+// require("path")  /  import("path")
+export interface RequireStatement extends NodeLocation {
+  type: 'RequireStatement';
+  source: string;
+}
+
+export interface FunctionDeclaration extends NodeLocation {
+  type: 'FunctionDeclaration';
+  name: string;
+  params: Parameter[];
+  hasRestParam: boolean;  // The last parameter (...rest) collects the remaining arguments
+  returnType?: TypeAnnotation;
+  body: Statement[];
+  exported: boolean;
+}
+
+// class Name extends Parent { function new(self, ...) { } function method(self, ...) { } }
+// `parent` is a name or a dotted path such as shapes.Shape
+export interface ClassDeclaration extends NodeLocation {
+  type: 'ClassDeclaration';
+  name: string;
+  parent?: Identifier | MemberExpression;
+  methods: FunctionDeclaration[];
+  exported: boolean;
+}
+
+// enum Color { Red, Green, Blue }
+export interface EnumDeclaration extends NodeLocation {
+  type: 'EnumDeclaration';
+  name: string;
+  members: string[];
+}
+
+export interface ExportList extends NodeLocation {
+  type: 'ExportList';
+  names: string[];
+}
+
+// local name = value, or const NAME = value for a binding that cannot be reassigned
+export interface LocalDeclaration extends NodeLocation {
+  type: 'LocalDeclaration';
+  name: string;
+  constant: boolean;
+  typeAnnotation?: TypeAnnotation;
+  init?: Expression;
+}
+
+// local { a, b } = t / local [x, y] = list, or the same with const
+export interface DestructuringDeclaration extends NodeLocation {
+  type: 'DestructuringDeclaration';
+  pattern: ListPattern | TablePattern;
+  constant: boolean;
+  init: Expression;
+}
+
+export type AssignmentTarget = Identifier | MemberExpression | IndexExpression;
+
+export type AssignmentOperator = '=' | '+=' | '-=' | '*=' | '/=' | '%=' | '..=';
+
+// x = v, or a compound form such as x += v
+export interface AssignmentStatement extends NodeLocation {
+  type: 'AssignmentStatement';
+  operator: AssignmentOperator;
+  target: AssignmentTarget;
+  value: Expression;
+}
+
+// a, b = b, a. Every value is evaluated before any target is assigned; missing
+// values leave their targets undefined and extra values are dropped. A single
+// list value is spread over the targets, so a, b = f() takes f's two results.
+export interface MultipleAssignmentStatement extends NodeLocation {
+  type: 'MultipleAssignmentStatement';
+  targets: AssignmentTarget[];
+  values: Expression[];
+}
+
+export interface ExpressionStatement extends NodeLocation {
+  type: 'ExpressionStatement';
+  expression: Expression;
+}
+
+export interface WaitStatement extends NodeLocation {
+  type: 'WaitStatement';
+  seconds: Expression;
+  body: Statement[];
+}
+
+export interface IfClause extends NodeLocation {
+  condition: Expression;
+  body: Statement[];
+}
+
+// if (a) { } elseif (b) { } else { }
+export interface IfStatement extends NodeLocation {
+  type: 'IfStatement';
+  clauses: IfClause[];
+  alternate?: Statement[];
+}
+
+export interface WhileStatement extends NodeLocation {
+  type: 'WhileStatement';
+  label?: string;
+  condition: Expression;
+  body: Statement[];
+}
+
+export type ForClauseStatement = LocalDeclaration | DestructuringDeclaration | AssignmentStatement | MultipleAssignmentStatement | ExpressionStatement;
+
+// for (init; condition; update) { }
+export interface ForStatement extends NodeLocation {
+  type: 'ForStatement';
+  label?: string;
+  init?: ForClauseStatement;
+  condition?: Expression;
+  update?: ForClauseStatement;
+  body: Statement[];
+}
+
+// for item in items { } / for key, value in pairs(t) { }
+// Lists, strings and enums give (index, item) to two variables; iterator functions
+// give a list, which is spread over the variables.
+export interface ForInStatement extends NodeLocation {
+  type: 'ForInStatement';
+  label?: string;
+  variables: string[];
+  iterable: Expression;
+  body: Statement[];
+}
+
+// case 1, 2 => ... / case [x, y] if x > y => { ... }
+export interface MatchCase extends NodeLocation {
+  patterns: Pattern[];  // The case runs if any of them matches
+  guard?: Expression;
+  body: Statement[];
+}
+
+// match value { case ... => ... }: the first matching case runs
+export interface MatchStatement extends NodeLocation {
+  type: 'MatchStatement';
+  subject: Expression;
+  cases: MatchCase[];
+}
+
+// return a, b is parsed as return [a, b]
+export interface ReturnStatement extends NodeLocation {
+  type: 'ReturnStatement';
+  value?: Expression;
+}
+
+// try { } catch (err) { } finally { }
+// At least one of handler and finalizer is present; param is optional.
+export interface TryStatement extends NodeLocation {
+  type: 'TryStatement';
+  body: Statement[];
+  param?: string;
+  handler?: Statement[];
+  finalizer?: Statement[];
+}
+
+export interface ThrowStatement extends NodeLocation {
+  type: 'ThrowStatement';
+  value: Expression;
+}
+
+// break / break outerLabel
+export interface BreakStatement extends NodeLocation {
+  type: 'BreakStatement';
+  label?: string;
+}
+
+// continue / continue outerLabel
+export interface ContinueStatement extends NodeLocation {
+  type: 'ContinueStatement';
+  label?: string;
+}
+
+export type Statement =
+  | ModuleDeclaration
+  | ModuleFolderImport
+  | ImportFromStatement
+  | ImportAllStatement
+  | RequireStatement
+  | FunctionDeclaration
+  | ClassDeclaration
+  | EnumDeclaration
+  | ExportList
+  | LocalDeclaration
+  | DestructuringDeclaration
+  | AssignmentStatement
+  | MultipleAssignmentStatement
+  | ExpressionStatement
+  | WaitStatement
+  | IfStatement
+  | MatchStatement
+  | WhileStatement
+  | ForStatement
+  | ForInStatement
+  | BreakStatement
+  | ContinueStatement
+  | ReturnStatement
+  | TryStatement
+  | ThrowStatement;
+
+export interface Program {
+  type: 'Program';
+  body: Statement[];
+}
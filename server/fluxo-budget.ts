@@ -0,0 +1,106 @@
+// Fluxo execution budget
+// Caps how much work a single run may do. One budget is shared by every
+// interpreter taking part in a run (entry file, modules, workspace files).
+
+import type { ExecutionBudget } from "@shared/schema";
+import { FluxoBudgetError } from "./fluxo-errors";
+
+export const DEFAULT_EXECUTION_BUDGET: Required<ExecutionBudget> = {
+  maxSteps: 1_000_000,
+  maxTimeMs: 10_000,
+  maxCallDepth: 200,
+  maxOutputMessages: 1_000,
+};
+
+export class FluxoBudget {
+  readonly limits: Required<ExecutionBudget>;
+  private steps = 0;
+  private outputMessages = 0;
+  private deadline: number;
+  private exhausted = false;
+
+  constructor(limits: ExecutionBudget = {}) {
+    this.limits = {
+      maxSteps: limits.maxSteps ?? DEFAULT_EXECUTION_BUDGET.maxSteps,
+      maxTimeMs: limits.maxTimeMs ?? DEFAULT_EXECUTION_BUDGET.maxTimeMs,
+      maxCallDepth: limits.maxCallDepth ?? DEFAULT_EXECUTION_BUDGET.maxCallDepth,
+      maxOutputMessages: limits.maxOutputMessages ?? DEFAULT_EXECUTION_BUDGET.maxOutputMessages,
+    };
+    this.deadline = Date.now() + this.limits.maxTimeMs;
+  }
+
+  // True once any limit has been hit; the rest of the run should not start
+  isExhausted(): boolean {
+    return this.exhausted;
+  }
+
+  // Called for every statement and expression evaluated
+  step() {
+    if (++this.steps > this.limits.maxSteps) {
+      this.fail(`more than ${this.limits.maxSteps} steps were executed (possible infinite loop)`);
+    }
+    this.checkTime();
+  }
+
+  checkTime() {
+    if (Date.now() > this.deadline) {
+      this.fail(`the run took longer than ${this.limits.maxTimeMs} ms`);
+    }
+  }
+
+  // `depth` is the number of Fluxo frames the new call would make
+  enterCall(depth: number) {
+    if (depth > this.limits.maxCallDepth) {
+      this.fail(`call depth exceeded ${this.limits.maxCallDepth} (possible infinite recursion)`);
+    }
+  }
+
+  recordOutput() {
+    if (++this.outputMessages > this.limits.maxOutputMessages) {
+      this.fail(`more than ${this.limits.maxOutputMessages} output messages were produced`);
+    }
+  }
+
+  // Waits that would run past the deadline fail up front instead of hanging the request
+  checkWait(ms: number) {
+    this.checkTime();
+    if (Date.now() + ms > this.deadline) {
+      this.fail(`waiting ${ms / 1000}s would exceed the ${this.limits.maxTimeMs} ms time limit`);
+    }
+  }
+
+  // Time spent in `wait` (e.g. for user input) is added back to the deadline
+  async excludeTime<T>(wait: Promise<T>): Promise<T> {
+    const start = Date.now();
+    try {
+      return await wait;
+    } finally {
+      this.deadline += Date.now() - start;
+    }
+  }
+
+  // Settles like `wait`, or fails once the time limit is reached. Used for
+  // waits that may never end, such as a receive on a channel nobody sends to.
+  async withinTime<T>(wait: Promise<T>): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        try {
+          this.fail(`the run took longer than ${this.limits.maxTimeMs} ms`);
+        } catch (error) {
+          reject(error);
+        }
+      }, Math.max(0, this.deadline - Date.now()));
+    });
+    try {
+      return await Promise.race([wait, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private fail(reason: string): never {
+    this.exhausted = true;
+    throw new FluxoBudgetError(`Execution budget exceeded: ${reason}`);
+  }
+}
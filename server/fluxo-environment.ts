@@ -0,0 +1,68 @@
+// Fluxo environments
+// A scope is a map of bindings plus a link to the enclosing scope. Blocks and
+// function calls each get a fresh scope, and functions keep the scope they
+// were declared in so they can close over it.
+
+export class FluxoEnvironment {
+  private bindings = new Map<string, any>();
+  private constants = new Set<string>();
+
+  constructor(readonly parent?: FluxoEnvironment) {}
+
+  // Create a binding in this scope, shadowing any outer binding of the same name
+  define(name: string, value: any) {
+    if (this.constants.has(name)) {
+      throw new Error(`Runtime Error: Cannot redeclare constant '${name}'`);
+    }
+    this.bindings.set(name, value);
+  }
+
+  // A binding that cannot be assigned to or redeclared in the same scope
+  defineConstant(name: string, value: any) {
+    this.define(name, value);
+    this.constants.add(name);
+  }
+
+  // Whether this scope itself (not its parents) declares `name` as a constant
+  hasOwnConstant(name: string): boolean {
+    return this.constants.has(name);
+  }
+
+  // Whether the nearest binding of `name` is a constant
+  isConstant(name: string): boolean {
+    return this.resolve(name)?.constants.has(name) ?? false;
+  }
+
+  has(name: string): boolean {
+    return this.resolve(name) !== undefined;
+  }
+
+  get(name: string): any {
+    return this.resolve(name)?.bindings.get(name);
+  }
+
+  // Update the nearest enclosing binding. Returns false if the name is not bound anywhere.
+  assign(name: string, value: any): boolean {
+    const scope = this.resolve(name);
+    if (!scope) return false;
+    if (scope.constants.has(name)) {
+      throw new Error(`Runtime Error: Cannot assign to constant '${name}'`);
+    }
+    scope.bindings.set(name, value);
+    return true;
+  }
+
+  // Bindings declared directly in this scope (not its parents)
+  entries(): [string, any][] {
+    return Array.from(this.bindings.entries());
+  }
+
+  private resolve(name: string): FluxoEnvironment | undefined {
+    let scope: FluxoEnvironment | undefined = this;
+    while (scope) {
+      if (scope.bindings.has(name)) return scope;
+      scope = scope.parent;
+    }
+    return undefined;
+  }
+}
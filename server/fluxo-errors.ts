@@ -0,0 +1,48 @@
+import type { StackFrame } from "@shared/schema";
+
+// Error raised for anything that goes wrong while lexing, parsing or running
+// Fluxo code. Carries the source location and the Fluxo-level call stack so
+// the IDE can jump straight to the failing line.
+export class FluxoError extends Error {
+  filePath?: string;
+  line?: number;
+  column?: number;
+  fluxoStack: StackFrame[];
+
+  constructor(message: string, location: { filePath?: string; line?: number; column?: number } = {}, fluxoStack: StackFrame[] = []) {
+    super(message);
+    this.name = 'FluxoError';
+    this.filePath = location.filePath;
+    this.line = location.line;
+    this.column = location.column;
+    this.fluxoStack = fluxoStack;
+  }
+}
+
+// Raised by a Fluxo `throw` statement. `value` is whatever was thrown.
+export class FluxoThrownError extends FluxoError {
+  value: any;
+
+  constructor(message: string, value: any, location: { filePath?: string; line?: number; column?: number }, fluxoStack: StackFrame[]) {
+    super(message, location, fluxoStack);
+    this.name = 'FluxoThrownError';
+    this.value = value;
+  }
+}
+
+// Raised when a run uses up its execution budget (steps, time, call depth or
+// output). Kept distinct so it always ends the run.
+export class FluxoBudgetError extends FluxoError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FluxoBudgetError';
+  }
+}
+
+// Raised when a run is cancelled (the IDE's Stop button)
+export class FluxoCancelledError extends FluxoError {
+  constructor() {
+    super('Execution stopped by user');
+    this.name = 'FluxoCancelledError';
+  }
+}
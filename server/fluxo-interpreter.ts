@@ -1,26 +1,152 @@
-import { type OutputMessage, type FileNode } from "@shared/schema";
+import { type OutputMessage, type FileNode, type StackFrame, type ExecutionBudget } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { AsyncLocalStorage } from "async_hooks";
+import { performance } from "perf_hooks";
 import { storage } from "./storage";
+import { parseFluxo } from "./fluxo-parser";
+import { FluxoError, FluxoBudgetError, FluxoCancelledError, FluxoThrownError } from "./fluxo-errors";
+import { FluxoEnvironment } from "./fluxo-environment";
+import { FluxoBudget } from "./fluxo-budget";
+import { CancellationToken } from "./fluxo-runs";
+import { formatDate, parseDate, DEFAULT_DATE_PATTERN } from "./fluxo-time";
+import { FluxoTaskGroup, FluxoChannel, type FluxoTask } from "./fluxo-tasks";
+import { createStdModule, STD_MODULE_NAMES, STD_MODULE_PREFIX } from "./fluxo-stdlib";
+import type {
+  Statement,
+  Expression,
+  ModuleDeclaration,
+  ModuleFolderImport,
+  ImportFromStatement,
+  ImportAllStatement,
+  RequireStatement,
+  FunctionDeclaration,
+  FunctionExpression,
+  Parameter,
+  ClassDeclaration,
+  EnumDeclaration,
+  IfStatement,
+  MatchStatement,
+  Pattern,
+  WhileStatement,
+  ForStatement,
+  ForInStatement,
+  TryStatement,
+  CallExpression,
+  MethodCallExpression,
+  MemberExpression,
+  LogicalExpression,
+  UnaryExpression,
+  IndexExpression,
+  TableLiteral,
+  AssignmentStatement,
+  MultipleAssignmentStatement,
+  AssignmentTarget,
+  BinaryOperator,
+  UpdateExpression,
+  AwaitExpression,
+  NodeLocation,
+} from "./fluxo-ast";
 
 interface FluxoContext {
-  variables: Map<string, any>;
-  functions: Map<string, FluxoFunction>;
+  globals: FluxoEnvironment;  // Top-level scope of the file or module; its parent holds the builtins
+  environment: FluxoEnvironment;  // Innermost scope of the code currently running
   modules: Map<string, FluxoModule>;
   output: OutputMessage[];
+  callStack: StackFrame[];  // Innermost frame last; shared by every interpreter in a task
+  loadingModules: string[];  // Module files being loaded, outermost first; shared by every interpreter in a task
+  moduleCache: Map<string, ModuleCacheEntry>;  // Module files loaded (or loading) in this run, by path; shared by every interpreter in a run
+  moduleInitOrder: string[];  // Module files in the order they finished loading, so dependencies come first; shared like moduleCache
+  budget: FluxoBudget;  // Shared by every interpreter in a run
+  cancellation: CancellationToken;  // The run's token, or the current task's
+  tasks: FluxoTaskGroup;  // Shared by every interpreter in a run
+  startedAt: number;  // performance.now() when the run started; clock() counts from here
+  task?: { id: number; name: string };  // Set inside spawned tasks; tags their output
+  onOutput?: (message: OutputMessage) => void;  // Live listener for streamed runs
+  requestInput?: (prompt: string) => Promise<string>;  // Asks the IDE for a line of text; interactive runs only
   returnValue?: any;
   shouldReturn: boolean;
+  // Set by break/continue and cleared by the loop it targets. Statements stop
+  // running while it is set, so the signal unwinds through nested blocks.
+  loopSignal?: { kind: 'break' | 'continue'; label?: string };
 }
 
+const MAX_STACK_FRAMES = 50;
+
+// The interpreter running the current task. Builtins are created once, by the
+// interpreter whose scope they live in, but must act for whichever task calls
+// them (its call stack, its cancellation, its output tag).
+const runningTask = new AsyncLocalStorage<FluxoInterpreter>();
+
+// Task handles returned by spawn(), mapped to the task they control
+const taskHandles = new WeakMap<object, FluxoTask>();
+
+// Error tables handed to catch blocks, mapped back to the error they describe
+// so that `throw err` rethrows the original error with its location and stack
+const caughtErrors = new WeakMap<object, FluxoError>();
+
+// Importers' copies of exported constants, mapped to the value the module
+// exported, so importing the same constant again is recognised
+const importedConstants = new WeakMap<object, any>();
+
+// Brand for user-defined functions, so a table that happens to have `params`
+// and `body` fields is never mistaken for one
+const FLUXO_FUNCTION = Symbol('FluxoFunction');
+
 interface FluxoFunction {
-  params: string[];
-  body: string;
+  [FLUXO_FUNCTION]: true;
+  name: string;
+  filePath: string;  // File the function was declared in
+  params: Parameter[];
+  body: Statement[];
   hasRestParam: boolean;
+  closure: FluxoEnvironment;  // Scope the function was declared in
+  self?: any;  // Set on methods read from an instance (obj.method); passed as the first argument
+}
+
+// How a call written in Fluxo code passed its arguments: f(x, scale = 2)
+interface CallSite {
+  named: Map<string, any>;
+  implicit: number;  // Leading arguments the call supplied itself (self), left out of arity messages
+}
+
+// Brand for classes declared with `class`
+const FLUXO_CLASS = Symbol('FluxoClass');
+
+interface FluxoClass {
+  [FLUXO_CLASS]: true;
+  name: string;
+  parent?: FluxoClass;
+  methods: Map<string, FluxoFunction>;  // Own methods; the rest are looked up on the parent
+}
+
+// Instances made by calling a class, mapped to their class. An instance is an
+// ordinary table otherwise, so its fields work with pairs(), std:json and so on.
+const instanceClasses = new WeakMap<object, FluxoClass>();
+
+// Brand for enums declared with `enum`
+const FLUXO_ENUM = Symbol('FluxoEnum');
+
+interface FluxoEnum {
+  [FLUXO_ENUM]: true;
+  name: string;
+  members: Readonly<{ name: string; value: number }>[];  // In declaration order; value is the position
 }
 
+// Enum members, mapped to their enum
+const enumMembers = new WeakMap<object, FluxoEnum>();
+
 interface FluxoModule {
   name: string;
   exports: Map<string, FluxoFunction | any>;  // Can export functions or variables
   variables: Map<string, any>;  // Track module-level variables
+  constants: Set<string>;  // Exports declared with const, which importers share instead of cloning
+}
+
+export interface FluxoRunOptions {
+  budget?: ExecutionBudget;
+  cancellation?: CancellationToken;
+  onOutput?: (message: OutputMessage) => void;
+  requestInput?: (prompt: string) => Promise<string>;
 }
 
 interface ModuleCacheEntry {
@@ -28,61 +154,53 @@ interface ModuleCacheEntry {
   moduleObject: FluxoModule;
   filePath: string;
   executed: boolean;
+  loaded: Promise<void>;  // Settles once loading has finished, whether or not it succeeded
+  pendingAliases: Record<string, any>[];  // `import alias` tables waiting for the module to finish loading
 }
 
 export class FluxoInterpreter {
-  // Global module cache shared across ALL interpreter instances
-  private static globalModuleCache: Map<string, ModuleCacheEntry> = new Map();
-  
-  // Method to clear the global cache (useful for testing or workspace resets)
-  public static clearModuleCache() {
-    FluxoInterpreter.globalModuleCache.clear();
-  }
-  
-  // Method to get cache stats (for debugging)
-  public static getModuleCacheStats() {
-    return {
-      size: FluxoInterpreter.globalModuleCache.size,
-      modules: Array.from(FluxoInterpreter.globalModuleCache.keys())
-    };
-  }
-  
   private context: FluxoContext;
   private currentFilePath: string;
 
-  constructor(filePath: string) {
+  constructor(filePath: string, options: FluxoRunOptions = {}) {
     this.currentFilePath = filePath;
+    const builtins = new FluxoEnvironment();
+    const globals = new FluxoEnvironment(builtins);
     this.context = {
-      variables: new Map(),
-      functions: new Map(),
+      globals,
+      environment: globals,
       modules: new Map(),
       output: [],
+      callStack: [],
+      loadingModules: [],
+      moduleCache: new Map(),
+      moduleInitOrder: [],
+      budget: new FluxoBudget(options.budget),
+      cancellation: options.cancellation ?? new CancellationToken(),
+      tasks: new FluxoTaskGroup(),
+      startedAt: performance.now(),
+      onOutput: options.onOutput,
+      requestInput: options.requestInput,
       shouldReturn: false,
     };
 
-    this.setupBuiltins();
+    this.setupBuiltins(builtins);
   }
 
-  private setupBuiltins() {
-    const consoleLog = (...args: any[]) => {
-      const message = args.map(arg => {
-        if (typeof arg === 'object') return JSON.stringify(arg);
-        return String(arg);
-      }).join(' ');
-      this.addOutput('log', message);
+  private setupBuiltins(scope: FluxoEnvironment) {
+    const consoleLog = async (...args: any[]) => {
+      const active = this.active();
+      active.addOutput('log', await active.formatArgs(args));
     };
 
-    const message = (prefix: string, ...args: any[]) => {
-      const messageText = args.map(arg => {
-        if (typeof arg === 'object') return JSON.stringify(arg);
-        return String(arg);
-      }).join(' ');
-      
+    const message = async (prefix: string, ...args: any[]) => {
+      const messageText = await this.active().formatArgs(args);
+
       const fullMessage = `${prefix} ${messageText}`;
-      
+
       const prefixLower = String(prefix).toLowerCase();
       let type: OutputMessage['type'] = 'log';
-      
+
       if (prefixLower.includes('error') || prefixLower.includes('fail')) {
         type = 'error';
       } else if (prefixLower.includes('warn') || prefixLower.includes('warning')) {
@@ -90,74 +208,365 @@ export class FluxoInterpreter {
       } else if (prefixLower.includes('success') || prefixLower.includes('done')) {
         type = 'success';
       }
-      
-      this.addOutput(type, fullMessage);
+
+      this.active().addOutput(type, fullMessage);
     };
 
     const selectElement = (selector: string) => {
+      // There is no page on the server, so handlers are kept and run by trigger()
+      const handlers: Record<string, any[]> = {};
+      const register = (event: string) => (handler: any) => {
+        if (!this.isCallable(handler)) {
+          throw new Error(`Type Error: ${event} expects a function, got ${this.typeName(handler)}`);
+        }
+        (handlers[event] ??= []).push(handler);
+        this.active().addOutput('log', `Event handler registered for ${selector}: ${event}`);
+      };
       return {
         selector,
         text: '',
-        onClick: (handler: Function) => {
-          this.addOutput('log', `Event handler registered for ${selector}: onClick`);
-        },
-        onChange: (handler: Function) => {
-          this.addOutput('log', `Event handler registered for ${selector}: onChange`);
-        },
-        onHover: (handler: Function) => {
-          this.addOutput('log', `Event handler registered for ${selector}: onHover`);
+        onClick: register('onClick'),
+        onChange: register('onChange'),
+        onHover: register('onHover'),
+        // trigger("onClick", ...args) calls every handler registered for the event
+        trigger: async (event: string, ...args: any[]) => {
+          for (const handler of handlers[event] ?? []) {
+            await this.active().callFunction(handler, args);
+          }
         },
       };
     };
 
     const wait = (seconds: number) => {
-      return new Promise(resolve => setTimeout(resolve, seconds * 1000));
+      return this.active().sleep(seconds);
+    };
+
+    const input = (prompt?: any) => {
+      return this.active().readInput(prompt);
+    };
+
+    // Times are in seconds, like wait(). now() is wall-clock time since 1970;
+    // clock() counts from the start of the run and never jumps.
+    const now = () => Date.now() / 1000;
+    const clock = () => (performance.now() - this.context.startedAt) / 1000;
+
+    const formatDateBuiltin = (time: any = now(), pattern: any = DEFAULT_DATE_PATTERN) => {
+      if (typeof time !== 'number' || typeof pattern !== 'string') {
+        throw new Error(`Type Error: formatDate expects a time in seconds and a pattern string`);
+      }
+      return formatDate(time, pattern);
+    };
+
+    const parseDateBuiltin = (text: any, pattern?: any) => {
+      if (typeof text !== 'string' || (pattern !== undefined && typeof pattern !== 'string')) {
+        throw new Error(`Type Error: parseDate expects a date string and an optional pattern string`);
+      }
+      return parseDate(text, pattern);
+    };
+
+    // setTimeout(fn, seconds) and setInterval(fn, seconds) return a timer
+    // whose cancel() stops it. Each timer is an untagged task that sleeps and
+    // then calls back. An error in a callback is reported but does not stop
+    // the program or other timers.
+    const timer = (name: string, repeat: boolean) => (callback: any, seconds: any) => {
+      if (!this.isCallable(callback) || typeof seconds !== 'number' || seconds < 0) {
+        throw new Error(`Type Error: ${name} expects a function and a number of seconds`);
+      }
+      const task = this.active().startTask(async scope => {
+        do {
+          await scope.sleep(seconds);
+          try {
+            await scope.callFunction(callback, []);
+          } catch (error: any) {
+            const fluxoError = scope.toFluxoError(error);
+            if (!repeat || !scope.isCatchable(fluxoError)) throw fluxoError;
+            scope.addError(fluxoError);
+          }
+        } while (repeat);
+      });
+      return { cancel: () => task.token.cancel() };
+    };
+
+    // wait(seconds) without a block; usable anywhere an expression is
+    const delay = async (seconds: any) => {
+      if (typeof seconds !== 'number') {
+        throw new Error(`Type Error: delay expects a number of seconds, got ${this.typeName(seconds)}`);
+      }
+      await this.active().sleep(seconds);
+    };
+
+    // spawn(fn, ...args) runs fn(...args) as a task alongside the rest of the
+    // program. The handle can be awaited, cancelled and asked for its status.
+    const spawn = (callee: any, ...args: any[]) => {
+      if (!this.isCallable(callee)) {
+        throw new Error(`Type Error: spawn expects a function, got ${this.typeName(callee)}`);
+      }
+      const name = this.isFluxoFunction(callee) ? callee.name : 'builtin';
+      const task = this.active().startTask(scope => scope.callFunction(callee, args), name);
+      const handle = {
+        id: task.id,
+        name: task.name,
+        cancel: () => task.token.cancel(),
+        status: () => task.status,
+      };
+      taskHandles.set(handle, task);
+      return handle;
+    };
+
+    // A channel carries messages between tasks. receive() waits for the next
+    // message and gives null once the channel is closed and empty, so
+    // `for message in ch { }` reads until it is closed.
+    const channel = () => {
+      const queue = new FluxoChannel();
+      const receive = () => this.active().receive(queue);
+      return {
+        send: (value: any) => queue.send(value),
+        receive,
+        close: () => queue.close(),
+        iterator: () => receive,
+      };
+    };
+
+    // Iterator over [key, value] for a table, or [index, item] for a list.
+    // Keys are fixed when the loop starts; values are read as it goes.
+    const pairs = (value: any) => {
+      if (!Array.isArray(value) && !this.isTable(value)) {
+        throw new Error(`Type Error: pairs expects a table or list, got ${this.typeName(value)}`);
+      }
+      const keys: (string | number)[] = Array.isArray(value) ? value.map((_, i) => i) : Object.keys(value);
+      let position = 0;
+      return () => {
+        if (position >= keys.length) return null;
+        const key = keys[position++];
+        return [key, value[key]];
+      };
+    };
+
+    // Stops a table or list from being changed; the values inside it are not frozen
+    const freeze = (value: any) => {
+      if (!Array.isArray(value) && !this.isTable(value)) {
+        throw new Error(`Type Error: freeze expects a table or list, got ${this.typeName(value)}`);
+      }
+      return Object.freeze(value);
+    };
+
+    // range(stop), range(start, stop) or range(start, stop, step). Counts from
+    // start up to (or down to) stop, leaving stop out.
+    const range = (...args: any[]) => {
+      if (args.length === 0 || args.length > 3 || args.some(arg => typeof arg !== 'number')) {
+        throw new Error(`Type Error: range expects 1 to 3 numbers`);
+      }
+      const [start, stop, step = 1] = args.length === 1 ? [0, args[0]] : args;
+      if (step === 0) {
+        throw new Error(`Runtime Error: range step cannot be 0`);
+      }
+      let current = start;
+      return () => {
+        if (step > 0 ? current >= stop : current <= stop) return null;
+        const value = current;
+        current += step;
+        return value;
+      };
     };
 
-    this.context.variables.set('console', {
+    scope.define('console', {
       log: consoleLog,
     });
-    
-    this.context.variables.set('message', message);
-    this.context.variables.set('selectElement', selectElement);
-    this.context.variables.set('wait', wait);
+
+    scope.define('message', message);
+    scope.define('selectElement', selectElement);
+    scope.define('wait', wait);
+    scope.define('input', input);
+    scope.define('pairs', pairs);
+    scope.define('range', range);
+    scope.define('now', now);
+    scope.define('clock', clock);
+    scope.define('formatDate', formatDateBuiltin);
+    scope.define('parseDate', parseDateBuiltin);
+    scope.define('setTimeout', timer('setTimeout', false));
+    scope.define('setInterval', timer('setInterval', true));
+    scope.define('delay', delay);
+    scope.define('spawn', spawn);
+    scope.define('channel', channel);
+    scope.define('freeze', freeze);
   }
 
+  // Output is attributed to the statement currently executing, unless a location is given
   private addOutput(type: OutputMessage['type'], message: string, line?: number, column?: number) {
-    this.context.output.push({
+    this.context.budget.recordOutput();
+    const frame = this.currentFrame();
+    this.emitOutput({
       id: randomUUID(),
       type,
       message,
       timestamp: Date.now(),
-      filePath: this.currentFilePath,
-      line,
-      column,
+      filePath: frame?.filePath ?? this.currentFilePath,
+      line: line ?? frame?.line,
+      column: column ?? frame?.column,
+      task: this.context.task,
+    });
+  }
+
+  // Cancellation is reported as a warning: the user asked for it
+  private addError(error: FluxoError) {
+    this.emitOutput({
+      id: randomUUID(),
+      type: error instanceof FluxoCancelledError ? 'warning' : 'error',
+      message: error.message || 'Unknown error',
+      timestamp: Date.now(),
+      filePath: error.filePath ?? this.currentFilePath,
+      line: error.line,
+      column: error.column,
+      stack: error.fluxoStack,
+      task: this.context.task,
     });
   }
 
+  private emitOutput(message: OutputMessage) {
+    this.context.output.push(message);
+    this.context.onOutput?.(message);
+  }
+
+  // True once this run has hit one of its execution limits or been cancelled;
+  // nothing further should be executed with this context
+  isStopped(): boolean {
+    return this.context.budget.isExhausted() || this.context.cancellation.isCancelled();
+  }
+
+  // The modules this run has loaded (for debugging). `modules` lists files in
+  // the order they started loading, `initOrder` in the order they finished.
+  getModuleCacheStats() {
+    const entries = Array.from(this.context.moduleCache.values());
+    return {
+      size: this.context.moduleCache.size,
+      modules: entries.map(entry => entry.filePath),
+      initOrder: [...this.context.moduleInitOrder],
+      loading: entries.filter(entry => !entry.executed).map(entry => entry.filePath),
+    };
+  }
+
   async execute(code: string, isHtmlFile: boolean = false): Promise<OutputMessage[]> {
+    await this.context.tasks.takeTurn();
+    this.context.callStack.push({ functionName: '<main>', filePath: this.currentFilePath });
     try {
       if (isHtmlFile) {
         code = this.extractFluxoFromHtml(code);
       }
-      code = this.removeComments(code);
-      await this.parseAndExecute(code);
+      const program = parseFluxo(code, this.currentFilePath);
+      await this.executeStatements(program.body);
     } catch (error: any) {
-      this.addOutput('error', error.message || 'Unknown error');
+      this.addError(this.toFluxoError(error));
+      // Nothing is left to await the program's tasks
+      this.context.tasks.cancelAll();
+    } finally {
+      this.context.callStack.pop();
+      this.context.tasks.endTurn();
     }
+    // The program is finished once its tasks and timers are
+    await this.context.tasks.waitAll();
     return this.context.output;
   }
 
+  // The interpreter running the current task; builtins act through it
+  private active(): FluxoInterpreter {
+    return runningTask.getStore() ?? this;
+  }
+
+  // Start `body` as a task on an interpreter of its own. Tasks share
+  // everything in the run except what says where execution is: the scope,
+  // the call stack and pending return/break signals. Tasks with a name tag
+  // their output with it; timers pass none, so theirs reads like the program's.
+  private startTask(body: (scope: FluxoInterpreter) => Promise<any>, name?: string): FluxoTask {
+    const scope = new FluxoInterpreter(this.currentFilePath);
+    const token = this.context.cancellation.child();
+    const task = this.context.tasks.spawn(
+      name ?? 'timer',
+      token,
+      () => runningTask.run(scope, async () => {
+        try {
+          return await body(scope);
+        } catch (error: any) {
+          throw scope.toFluxoError(error);
+        }
+      }),
+      (task, error) => {
+        // A task that is being awaited hands its error to the awaiting code
+        if (task.status === 'failed' && task.awaiters === 0) scope.addError(error);
+      }
+    );
+    scope.context = {
+      ...this.context,
+      environment: this.context.globals,
+      callStack: [],
+      loadingModules: [],
+      cancellation: token,
+      returnValue: undefined,
+      shouldReturn: false,
+      loopSignal: undefined,
+      task: name === undefined ? undefined : { id: task.id, name },
+    };
+    return task;
+  }
+
+  private currentFrame(): StackFrame | undefined {
+    return this.context.callStack[this.context.callStack.length - 1];
+  }
+
+  // Snapshot of the call stack, innermost frame first. The innermost frame is
+  // pinned to `node` when given so it points at the exact failing expression.
+  // Deep recursion is cut down to the innermost MAX_STACK_FRAMES frames.
+  private captureStack(node?: NodeLocation): StackFrame[] {
+    const frames = this.context.callStack.map(frame => ({ ...frame }));
+    if (node && frames.length > 0) {
+      frames[frames.length - 1].line = node.line;
+      frames[frames.length - 1].column = node.column;
+    }
+    return frames.reverse().slice(0, MAX_STACK_FRAMES);
+  }
+
+  private runtimeError(message: string, node: NodeLocation): FluxoError {
+    const frame = this.currentFrame();
+    return new FluxoError(
+      message,
+      { filePath: frame?.filePath ?? this.currentFilePath, line: node.line, column: node.column },
+      this.captureStack(node)
+    );
+  }
+
+  // Attach a location and stack to errors that were thrown as plain Errors
+  // (builtins, import failures, ...). FluxoErrors already know where they came from.
+  private toFluxoError(error: any, node?: NodeLocation): FluxoError {
+    if (error instanceof FluxoError) {
+      // Errors raised without a location (e.g. budget limits) take the node's
+      if (error.line === undefined && node) {
+        const frame = this.currentFrame();
+        error.filePath = frame?.filePath ?? this.currentFilePath;
+        error.line = node.line;
+        error.column = node.column;
+        error.fluxoStack = this.captureStack(node);
+      }
+      if (!error.filePath) error.filePath = this.currentFilePath;
+      return error;
+    }
+    const message = error?.message || String(error) || 'Unknown error';
+    const frame = this.currentFrame();
+    const location = node ?? (frame?.line !== undefined ? { line: frame.line, column: frame.column ?? 1 } : undefined);
+    if (!location) {
+      return new FluxoError(message, { filePath: frame?.filePath ?? this.currentFilePath }, this.captureStack());
+    }
+    return this.runtimeError(message, location);
+  }
+
   private extractFluxoFromHtml(html: string): string {
     // New approach: look for script tags with data-fluxo-entry attribute
     const entryRegex = /<script\s+[^>]*data-fluxo-entry=["']([^"']+)["'][^>]*>/gi;
     const entryMatches = [];
     let match;
-    
+
     while ((match = entryRegex.exec(html)) !== null) {
       entryMatches.push(match[1]);
     }
-    
+
     if (entryMatches.length > 0) {
       // Generate import statements for each entry point
       const htmlFileDir = this.currentFilePath.substring(0, this.currentFilePath.lastIndexOf('/'));
@@ -170,117 +579,163 @@ export class FluxoInterpreter {
       }).join('\n');
       return importStatements;
     }
-    
+
     // Fallback: check for old-style embedded Fluxo scripts (deprecated)
     const scriptRegex = /<script\s+[^>]*type=["']text\/fluxo["'][^>]*>([\s\S]*?)<\/script>/gi;
     const matches = [];
-    
+
     while ((match = scriptRegex.exec(html)) !== null) {
       matches.push(match[1]);
     }
-    
+
     if (matches.length === 0) {
       this.addOutput('warning', 'No Fluxo entry points found. Use <script data-fluxo-entry="filename.fxm"> to import Fluxo modules.');
       return '';
     }
-    
+
     this.addOutput('warning', 'Embedded Fluxo scripts are deprecated. Use <script data-fluxo-entry="filename.fxm"> instead.');
     return matches.join('\n\n');
   }
 
-  private removeComments(code: string): string {
-    code = code.replace(/\/\*[\s\S]*?\*\//g, '');
-    code = code.replace(/\/\/.*/g, '');
-    return code;
-  }
-
-  private async parseAndExecute(code: string) {
-    let pos = 0;
-
-    while (pos < code.length) {
-      pos = this.skipWhitespace(code, pos);
-      if (pos >= code.length) break;
-
-      if (code.substring(pos).startsWith('import from ')) {
-        pos = await this.parseImportFrom(code, pos);
-      } else if (code.substring(pos).startsWith('import {')) {
-        pos = await this.parseImportFrom(code, pos);
-      } else if (code.substring(pos).startsWith('import ')) {
-        // New syntax: import <identifier> "path"
-        pos = await this.parseImportAll(code, pos);
-      } else if (code.substring(pos).startsWith('require(')) {
-        pos = await this.parseRequire(code, pos);
-      } else if (code.substring(pos).startsWith('module folder ')) {
-        pos = await this.parseModuleFolder(code, pos);
-      } else if (code.substring(pos).startsWith('module ')) {
-        pos = await this.parseModule(code, pos);
-      } else if (code.substring(pos).startsWith('export function ')) {
-        pos = this.parseFunctionDeclaration(code, pos);
-      } else if (code.substring(pos).startsWith('function ')) {
-        pos = this.parseFunctionDeclaration(code, pos);
-      } else if (code.substring(pos).startsWith('local ')) {
-        pos = await this.parseVariableDeclaration(code, pos);
-      } else if (code.substring(pos).startsWith('wait(')) {
-        pos = await this.parseWaitStatement(code, pos);
-      } else if (code.substring(pos).startsWith('if ')) {
-        pos = await this.parseIfStatement(code, pos);
-      } else if (code.substring(pos).startsWith('while ')) {
-        pos = await this.parseWhileLoop(code, pos);
-      } else if (code.substring(pos).startsWith('for ')) {
-        pos = await this.parseForLoop(code, pos);
-      } else if (code.substring(pos).startsWith('return ')) {
-        pos = await this.parseReturn(code, pos);
-      } else {
-        pos = await this.parseStatement(code, pos);
-      }
-
-      if (this.context.shouldReturn) break;
+  private async executeStatements(statements: Statement[]) {
+    for (const statement of statements) {
+      await this.executeStatement(statement);
+      if (this.context.shouldReturn || this.context.loopSignal) break;
     }
   }
 
-  private skipWhitespace(code: string, pos: number): number {
-    while (pos < code.length && /\s/.test(code[pos])) {
-      pos++;
+  private async executeStatement(statement: Statement): Promise<void> {
+    const frame = this.currentFrame();
+    if (frame) {
+      frame.line = statement.line;
+      frame.column = statement.column;
     }
-    return pos;
-  }
 
-  private findMatchingBrace(code: string, startPos: number): number {
-    let depth = 1;
-    let pos = startPos + 1;
-    let inString = false;
-    let stringChar = '';
+    try {
+      await this.context.cancellation.checkpoint();
+      this.context.budget.step();
+      await this.runStatement(statement);
+    } catch (error: any) {
+      throw this.toFluxoError(error, statement);
+    }
+  }
 
-    while (pos < code.length && depth > 0) {
-      if ((code[pos] === '"' || code[pos] === "'") && !inString) {
-        inString = true;
-        stringChar = code[pos];
-      } else if (code[pos] === stringChar && inString && code[pos - 1] !== '\\') {
-        inString = false;
-      } else if (!inString) {
-        if (code[pos] === '{') depth++;
-        if (code[pos] === '}') depth--;
+  private async runStatement(statement: Statement): Promise<void> {
+    switch (statement.type) {
+      case 'ModuleDeclaration':
+        await this.loadModule(statement, this.currentFilePath);
+        break;
+      case 'ModuleFolderImport':
+        await this.executeModuleFolder(statement);
+        break;
+      case 'ImportFromStatement':
+        await this.executeImportFrom(statement);
+        break;
+      case 'ImportAllStatement':
+        await this.executeImportAll(statement);
+        break;
+      case 'RequireStatement':
+        await this.executeRequire(statement);
+        break;
+      case 'FunctionDeclaration':
+        this.context.environment.define(statement.name, this.createFunction(statement));
+        break;
+      case 'ClassDeclaration':
+        this.context.environment.define(statement.name, await this.createClass(statement));
+        break;
+      case 'ExportList':
+        throw this.runtimeError(`Syntax Error: export { } must be placed inside a module block`, statement);
+      case 'LocalDeclaration': {
+        const value = statement.init ? await this.evaluateExpression(statement.init) : undefined;
+        if (statement.constant) {
+          this.context.environment.defineConstant(statement.name, value);
+        } else {
+          this.context.environment.define(statement.name, value);
+        }
+        break;
+      }
+      case 'EnumDeclaration':
+        this.context.environment.defineConstant(statement.name, this.createEnum(statement));
+        break;
+      case 'DestructuringDeclaration':
+        await this.destructure(
+          statement.pattern,
+          await this.evaluateExpression(statement.init),
+          this.context.environment,
+          statement.constant,
+          statement
+        );
+        break;
+      case 'AssignmentStatement':
+        await this.executeAssignment(statement);
+        break;
+      case 'MultipleAssignmentStatement':
+        await this.executeMultipleAssignment(statement);
+        break;
+      case 'ExpressionStatement':
+        await this.evaluateExpression(statement.expression);
+        break;
+      case 'WaitStatement': {
+        const seconds = await this.evaluateExpression(statement.seconds);
+        // Wait for the specified duration
+        await this.sleep(seconds);
+        // Execute the block after waiting
+        await this.executeBlock(statement.body);
+        break;
       }
-      pos++;
+      case 'IfStatement':
+        await this.executeIf(statement);
+        break;
+      case 'MatchStatement':
+        await this.executeMatch(statement);
+        break;
+      case 'WhileStatement':
+        await this.executeWhile(statement);
+        break;
+      case 'ForStatement':
+        await this.executeFor(statement);
+        break;
+      case 'ForInStatement':
+        await this.executeForIn(statement);
+        break;
+      case 'BreakStatement':
+        this.context.loopSignal = { kind: 'break', label: statement.label };
+        break;
+      case 'ContinueStatement':
+        this.context.loopSignal = { kind: 'continue', label: statement.label };
+        break;
+      case 'ReturnStatement':
+        this.context.returnValue = statement.value ? await this.evaluateExpression(statement.value) : undefined;
+        this.context.shouldReturn = true;
+        break;
+      case 'TryStatement':
+        await this.executeTry(statement);
+        break;
+      case 'ThrowStatement':
+        throw this.createThrow(await this.evaluateExpression(statement.value), statement);
     }
-
-    return pos;
   }
 
-  // Helper to normalize module paths to absolute paths with canonical resolution
-  private normalizeModulePath(modulePath: string, importingFilePath: string): string {
+  // Helper to normalize module paths to absolute paths with canonical resolution.
+  // Static so the type checker resolves imports the same way.
+  static normalizeModulePath(modulePath: string, importingFilePath: string): string {
+    // Standard library modules are built in, not files
+    if (modulePath.startsWith(STD_MODULE_PREFIX)) {
+      return modulePath;
+    }
+
     let fullPath: string;
-    
+
     // Handle absolute paths
     if (modulePath.startsWith('/')) {
       fullPath = modulePath;
-    } 
+    }
     // Handle relative paths (./module or ../module)
     else if (modulePath.startsWith('./') || modulePath.startsWith('../')) {
       // Get directory of importing file
       const lastSlash = importingFilePath.lastIndexOf('/');
       const importingDir = lastSlash > 0 ? importingFilePath.substring(0, lastSlash) : '/';
-      
+
       // Combine paths without stripping ./ to preserve relative semantics
       // Add separator only if importingDir is not root
       if (importingDir === '/') {
@@ -293,11 +748,11 @@ export class FluxoInterpreter {
     else {
       fullPath = '/' + modulePath;
     }
-    
+
     // Normalize path: remove duplicate slashes, resolve . and ..
     const segments = fullPath.split('/');
     const normalized: string[] = [];
-    
+
     for (const segment of segments) {
       if (!segment || segment === '.') {
         // Skip empty segments (from //) and current directory markers
@@ -312,132 +767,211 @@ export class FluxoInterpreter {
         normalized.push(segment);
       }
     }
-    
+
     // Rebuild canonical path
     const canonicalPath = normalized.length > 0 ? '/' + normalized.join('/') : '/';
-    
+
     // Add .fxm extension if not present
     if (!canonicalPath.endsWith('.fxm') && !canonicalPath.endsWith('.fxo')) {
       return canonicalPath + '.fxm';
     }
-    
+
     return canonicalPath;
   }
 
-  private async parseImportFrom(code: string, pos: number): Promise<number> {
-    // Support both syntaxes:
-    // 1. import from "fileName" { var1, var2 } (original)
-    // 2. import { var1, var2 } from "fileName" (ES6-style)
-    
-    const oldStyleMatch = code.substring(pos).match(/import\s+from\s+"([^"]+)"\s*\{([^}]+)\}/);
-    const es6StyleMatch = code.substring(pos).match(/import\s*\{([^}]+)\}\s+from\s+"([^"]+)"/);
-    
-    const match = es6StyleMatch || oldStyleMatch;
-    if (match) {
-      let modulePath: string;
-      let importList: string[];
-      
-      if (es6StyleMatch) {
-        // ES6-style: import { var1, var2 } from "fileName"
-        importList = match[1].split(',').map(name => name.trim()).filter(n => n);
-        modulePath = match[2];
-      } else {
-        // Old-style: import from "fileName" { var1, var2 }
-        modulePath = match[1];
-        importList = match[2].split(',').map(name => name.trim()).filter(n => n);
-      }
-      
-      // Normalize the module path to handle relative imports
-      const moduleFilePath = this.normalizeModulePath(modulePath, this.currentFilePath);
-
-      // Check global cache first
-      let loadedModule: FluxoModule | undefined;
-      const cacheEntry = FluxoInterpreter.globalModuleCache.get(moduleFilePath);
-      
-      if (cacheEntry) {
-        // Module already loaded in global cache - reuse it
-        loadedModule = cacheEntry.moduleObject;
-        this.context.modules.set(cacheEntry.moduleName, loadedModule);
+  // Parse a module file and return its first `module name { }` declaration
+  private findModuleDeclaration(content: string, filePath: string): ModuleDeclaration | undefined {
+    const program = parseFluxo(content, filePath);
+    return program.body.find((s): s is ModuleDeclaration => s.type === 'ModuleDeclaration');
+  }
+
+  // Resolve a module through the run's module cache, loading it from storage
+  // on a miss. With `allowPartial`, a circular import gets the module while it
+  // is still loading (see useCachedModule).
+  private async resolveModule(moduleFilePath: string, modulePath: string, allowPartial = false): Promise<FluxoModule | undefined> {
+    if (moduleFilePath.startsWith(STD_MODULE_PREFIX)) {
+      return this.resolveStdModule(moduleFilePath);
+    }
+
+    const cacheEntry = this.context.moduleCache.get(moduleFilePath);
+
+    if (cacheEntry) {
+      // Module already loaded in this run - reuse it
+      return this.useCachedModule(cacheEntry, allowPartial);
+    }
+
+    // Module not in cache - load it
+    const moduleContent = await storage.getFileContent(moduleFilePath);
+    if (!moduleContent) {
+      const suggestion = moduleFilePath.endsWith('.fxm') || moduleFilePath.endsWith('.fxo') ? '' : `\nDid you mean: "${modulePath}.fxm"?`;
+      throw new Error(
+        `Module not found: ${moduleFilePath}\n` +
+        `Make sure the file exists in your workspace.${suggestion}`
+      );
+    }
+
+    let moduleDecl: ModuleDeclaration | undefined;
+    try {
+      moduleDecl = this.findModuleDeclaration(moduleContent, moduleFilePath);
+    } catch (error: any) {
+      throw this.prefixError(`Failed to load module from ${moduleFilePath}: `, error);
+    }
+
+    if (!moduleDecl) {
+      throw new Error(
+        `Invalid module file: ${moduleFilePath}\n` +
+        `Expected format: module moduleName { ... }\n` +
+        `Make sure the file contains a valid module declaration.`
+      );
+    }
+
+    try {
+      await this.loadModule(moduleDecl, moduleFilePath);
+    } catch (error: any) {
+      throw this.prefixError(`Failed to load module '${moduleDecl.name}' from ${moduleFilePath}: `, error);
+    }
+    return this.context.modules.get(moduleDecl.name);
+  }
+
+  // A cached module may still be loading. If this task is the one loading it,
+  // the import is circular and the module has no exports yet, so it is an
+  // error unless `allowPartial` is set. Otherwise another task is loading it
+  // and we wait for it to finish.
+  private async useCachedModule(entry: ModuleCacheEntry, allowPartial = false): Promise<FluxoModule> {
+    if (!entry.executed) {
+      if (this.context.loadingModules.includes(entry.filePath)) {
+        if (!allowPartial) throw this.circularImportError(entry.filePath);
       } else {
-        // Module not in cache - load it
-        const moduleContent = await storage.getFileContent(moduleFilePath);
-        if (moduleContent) {
-          const moduleMatch = moduleContent.match(/module\s+(\w+)\s*\{/);
-          if (moduleMatch) {
-            const moduleName = moduleMatch[1];
-            try {
-              await this.loadModule(moduleContent, moduleFilePath);
-              loadedModule = this.context.modules.get(moduleName);
-            } catch (error: any) {
-              throw new Error(`Failed to load module '${moduleName}' from ${moduleFilePath}: ${error.message}`);
-            }
-          } else {
-            throw new Error(
-              `Invalid module file: ${moduleFilePath}\n` +
-              `Expected format: module moduleName { ... }\n` +
-              `Make sure the file contains a valid module declaration.`
-            );
-          }
-        } else {
-          const suggestion = moduleFilePath.endsWith('.fxm') ? '' : `\nDid you mean: "${modulePath}.fxm"?`;
-          throw new Error(
-            `Module not found: ${moduleFilePath}\n` +
-            `Make sure the file exists in your workspace.${suggestion}`
-          );
+        await this.context.tasks.yieldWhile(entry.loaded);
+        if (!entry.executed) {
+          throw new Error(`Import Error: Module '${entry.moduleName}' failed to load\nFile: ${entry.filePath}`);
         }
       }
-      
-      if (loadedModule) {
-        const notFoundExports: string[] = [];
-        
-        // Import only the specified variables/functions
-        // Create deep clones of values to prevent mutation across imports
-        importList.forEach(name => {
-          if (loadedModule!.exports.has(name)) {
-            const exported = loadedModule!.exports.get(name);
-            if (typeof exported === 'object' && exported.params !== undefined) {
-              // It's a function - create wrapper (functions are immutable so no cloning needed)
-              this.context.variables.set(name, (...args: any[]) => {
-                return this.executeFunction(exported, args);
-              });
-            } else {
-              // It's a variable - clone it to prevent mutation
-              this.context.variables.set(name, this.cloneValue(exported));
-            }
-          } else {
-            notFoundExports.push(name);
+    }
+    this.context.modules.set(entry.moduleName, entry.moduleObject);
+    return entry.moduleObject;
+  }
+
+  private circularImportError(moduleFilePath: string): Error {
+    const loading = this.context.loadingModules;
+    const cycle = [...loading.slice(loading.indexOf(moduleFilePath)), moduleFilePath];
+    return new Error(
+      `Import Error: Circular import: ${cycle.join(' -> ')}\n` +
+      `Hint: Move the shared code into a separate module, or use 'import alias "${moduleFilePath}"', ` +
+      `whose exports can be used inside functions once loading has finished.`
+    );
+  }
+
+  // Standard library modules are created once per run, so state such as the
+  // math.seed() random sequence is shared by every file in the run. They are
+  // registered under their std: path, which no module name can clash with.
+  private resolveStdModule(modulePath: string): FluxoModule {
+    const existing = this.context.modules.get(modulePath);
+    if (existing) return existing;
+
+    const name = modulePath.slice(STD_MODULE_PREFIX.length);
+    const exports = createStdModule(name, {
+      callFunction: (callee, args) => this.active().callFunction(callee, args),
+      isCallable: value => this.isCallable(value),
+      formatValue: value => this.active().toText(value),
+      typeName: value => this.typeName(value),
+    });
+    if (!exports) {
+      throw new Error(
+        `Module not found: ${modulePath}\n` +
+        `Standard modules: ${STD_MODULE_NAMES.map(n => STD_MODULE_PREFIX + n).join(', ')}`
+      );
+    }
+
+    const stdModule: FluxoModule = { name, exports: new Map(Object.entries(exports)), variables: new Map(), constants: new Set() };
+    this.context.modules.set(modulePath, stdModule);
+    return stdModule;
+  }
+
+  // Add context to an error while keeping the location it was raised at
+  private prefixError(prefix: string, error: any): FluxoError {
+    const fluxoError = this.toFluxoError(error);
+    fluxoError.message = prefix + fluxoError.message;
+    return fluxoError;
+  }
+
+  // Exported functions and classes close over their module's scope, and
+  // enums cannot be changed, so these are shared as-is. A constant's value is
+  // shared only when frozen, since const alone does not stop its tables from
+  // being changed.
+  private wrapExport(module: FluxoModule, name: string): any {
+    const item = module.exports.get(name);
+    if (this.isFluxoFunction(item) || this.isFluxoClass(item) || this.isFluxoEnum(item)) {
+      return item;
+    }
+    if (module.constants.has(name) && Object.isFrozen(item)) {
+      return item;
+    }
+    // It's a variable - clone it to prevent mutation
+    return this.cloneValue(item);
+  }
+
+  private async executeImportFrom(statement: ImportFromStatement) {
+    // Supports both syntaxes:
+    // 1. import from "fileName" { var1, var2 } (original)
+    // 2. import { var1, var2 } from "fileName" (ES6-style)
+    const modulePath = statement.source;
+
+    // Normalize the module path to handle relative imports
+    const moduleFilePath = FluxoInterpreter.normalizeModulePath(modulePath, this.currentFilePath);
+    const loadedModule = await this.resolveModule(moduleFilePath, modulePath);
+    if (!loadedModule) return;
+
+    const notFoundExports: string[] = [];
+
+    // Import only the specified variables/functions
+    statement.names.forEach(name => {
+      if (loadedModule.exports.has(name)) {
+        // Imported constants stay constant. Importing the same constant again
+        // (e.g. from another workspace file sharing this scope) is not a redeclaration.
+        if (loadedModule.constants.has(name)) {
+          const item = loadedModule.exports.get(name);
+          const environment = this.context.environment;
+          const existing = environment.get(name);
+          const sameConstant = existing === item || (typeof existing === 'object' && importedConstants.get(existing) === item);
+          if (!(environment.hasOwnConstant(name) && sameConstant)) {
+            const value = this.wrapExport(loadedModule, name);
+            if (value !== item) importedConstants.set(value, item);
+            environment.defineConstant(name, value);
           }
-        });
-        
-        if (notFoundExports.length > 0) {
-          const availableExports = Array.from(loadedModule.exports.keys()).join(', ');
-          throw new Error(
-            `Import Error: The following exports were not found in module '${loadedModule.name}': ${notFoundExports.join(', ')}\n` +
-            `Available exports: ${availableExports || '(none)'}\n` +
-            `File: ${moduleFilePath}`
-          );
+        } else {
+          this.context.environment.define(name, this.wrapExport(loadedModule, name));
         }
+      } else {
+        notFoundExports.push(name);
       }
+    });
 
-      return pos + match[0].length;
+    if (notFoundExports.length > 0) {
+      const availableExports = Array.from(loadedModule.exports.keys()).join(', ');
+      throw new Error(
+        `Import Error: The following exports were not found in module '${loadedModule.name}': ${notFoundExports.join(', ')}\n` +
+        `Available exports: ${availableExports || '(none)'}\n` +
+        `File: ${moduleFilePath}`
+      );
     }
-    return pos + 1;
   }
-  
+
   // Helper to deep clone values with cycle detection and function preservation
   private cloneValue(value: any, visited: WeakMap<any, any> = new WeakMap()): any {
     // Primitives and null/undefined
     if (value === null || value === undefined) return value;
     if (typeof value !== 'object') return value;
-    
-    // Functions should not be cloned - return as-is
-    if (typeof value === 'function') return value;
-    
+
+    // Functions, classes and enums should not be cloned - return as-is
+    if (typeof value === 'function' || this.isFluxoFunction(value) || this.isFluxoClass(value)) return value;
+    if (this.isFluxoEnum(value) || enumMembers.has(value)) return value;
+
     // Check for cycles - if we've seen this object, return the clone we made
     if (visited.has(value)) {
       return visited.get(value);
     }
-    
+
     // Handle arrays
     if (Array.isArray(value)) {
       const cloned: any[] = [];
@@ -445,9 +979,9 @@ export class FluxoInterpreter {
       for (const item of value) {
         cloned.push(this.cloneValue(item, visited));
       }
-      return cloned;
+      return Object.isFrozen(value) ? Object.freeze(cloned) : cloned;
     }
-    
+
     // Handle Map
     if (value instanceof Map) {
       const cloned = new Map();
@@ -457,7 +991,7 @@ export class FluxoInterpreter {
       });
       return cloned;
     }
-    
+
     // Handle Set
     if (value instanceof Set) {
       const cloned = new Set();
@@ -467,315 +1001,218 @@ export class FluxoInterpreter {
       });
       return cloned;
     }
-    
-    // Handle plain objects
+
+    // Handle plain objects; a cloned instance keeps its class
     const cloned: any = {};
     visited.set(value, cloned); // Register before recursing
-    
+    const valueClass = instanceClasses.get(value);
+    if (valueClass) instanceClasses.set(cloned, valueClass);
+
     for (const key in value) {
       if (value.hasOwnProperty(key)) {
         cloned[key] = this.cloneValue(value[key], visited);
       }
     }
-    
-    return cloned;
+
+    return Object.isFrozen(value) ? Object.freeze(cloned) : cloned;
   }
 
-  private async parseImportAll(code: string, pos: number): Promise<number> {
-    // New syntax: import <identifier> "path" or import <identifier> variableName
+  private async executeImportAll(statement: ImportAllStatement) {
+    // Syntax: import <identifier> "path" or import <identifier> variableName
     // This imports ALL exports from a file/folder and assigns to the identifier
-    const literalMatch = code.substring(pos).match(/import\s+(\w+)\s+"([^"]+)"/);
-    const variableMatch = code.substring(pos).match(/import\s+(\w+)\s+(\w+)/);
-    
-    const match = literalMatch || variableMatch;
-    if (match) {
-      const identifier = match[1];
-      let modulePath = match[2];
-      
-      // If it's a variable path, resolve the variable first
-      if (variableMatch && !literalMatch) {
-        const varValue = this.context.variables.get(modulePath);
-        if (typeof varValue !== 'string') {
-          throw new Error(
-            `Import path variable '${modulePath}' must be a string.\n` +
-            `Found: ${typeof varValue}`
-          );
-        }
-        modulePath = varValue;
-      }
-      
-      // First, normalize the path WITHOUT adding file extensions
-      // This allows us to check if it's a folder first
-      let fullPath = modulePath;
-      if (modulePath.startsWith('/')) {
-        fullPath = modulePath;
-      } else if (modulePath.startsWith('./') || modulePath.startsWith('../')) {
-        const lastSlash = this.currentFilePath.lastIndexOf('/');
-        const importingDir = lastSlash > 0 ? this.currentFilePath.substring(0, lastSlash) : '/';
-        if (importingDir === '/') {
-          fullPath = importingDir + modulePath;
-        } else {
-          fullPath = importingDir + '/' + modulePath;
-        }
-      } else {
-        fullPath = '/' + modulePath;
-      }
-      
-      // Normalize path: remove duplicate slashes, resolve . and ..
-      const segments = fullPath.split('/');
-      const normalized: string[] = [];
-      for (const segment of segments) {
-        if (!segment || segment === '.') continue;
-        else if (segment === '..') {
-          if (normalized.length > 0) normalized.pop();
-        } else {
-          normalized.push(segment);
-        }
-      }
-      const canonicalPath = normalized.length > 0 ? '/' + normalized.join('/') : '/';
-      
-      // Check if this is a folder (before adding extensions)
-      const fileTree = await storage.getFileTree();
-      const node = this.findNodeByPath(fileTree, canonicalPath);
-      
-      if (node && node.type === 'folder') {
-        // This is a folder import - import all exports from all files in the folder
-        return await this.importFolderExports(identifier, node, pos + match[0].length);
-      }
-      
-      // It's a file import - now add extension if needed
-      let moduleFilePath = canonicalPath;
-      if (!moduleFilePath.endsWith('.fxm') && !moduleFilePath.endsWith('.fxo')) {
-        moduleFilePath = moduleFilePath + '.fxm';
-      }
-      
-      let moduleContent = await storage.getFileContent(moduleFilePath);
-      
-      // If not found as .fxm, try .fxo
-      if (!moduleContent && moduleFilePath.endsWith('.fxm')) {
-        moduleFilePath = moduleFilePath.replace(/\.fxm$/, '.fxo');
-        moduleContent = await storage.getFileContent(moduleFilePath);
-      }
-      
-      // Check global cache first
-      let loadedModule: FluxoModule | undefined;
-      const cacheEntry = FluxoInterpreter.globalModuleCache.get(moduleFilePath);
-      
-      if (cacheEntry) {
-        // Module already loaded in global cache - reuse it
-        loadedModule = cacheEntry.moduleObject;
-        this.context.modules.set(cacheEntry.moduleName, loadedModule);
-      } else if (moduleContent) {
-        // Module not in cache - load it
-        const moduleMatch = moduleContent.match(/module\s+(\w+)\s*\{/);
-        if (moduleMatch) {
-          const moduleName = moduleMatch[1];
-          try {
-            await this.loadModule(moduleContent, moduleFilePath);
-            loadedModule = this.context.modules.get(moduleName);
-          } catch (error: any) {
-            throw new Error(`Failed to load module '${moduleName}' from ${moduleFilePath}: ${error.message}`);
-          }
-        } else {
-          throw new Error(
-            `Invalid module format in ${moduleFilePath}.\n` +
-            `Make sure the file contains a valid module declaration with 'module name { ... }'.`
-          );
-        }
-      } else {
-        const suggestion = moduleFilePath.endsWith('.fxm') || moduleFilePath.endsWith('.fxo') ? '' : `\nDid you mean: "${modulePath}.fxm"?`;
+    const identifier = statement.identifier;
+    let modulePath: string;
+
+    // If it's a variable path, resolve the variable first
+    if (statement.source.type === 'Identifier') {
+      const varValue = this.context.environment.get(statement.source.name);
+      if (typeof varValue !== 'string') {
         throw new Error(
-          `Module not found: ${modulePath}\n` +
-          `Make sure the file exists in your workspace.${suggestion}`
+          `Import path variable '${statement.source.name}' must be a string.\n` +
+          `Found: ${typeof varValue}`
         );
       }
-      
-      if (loadedModule) {
-        // Create an object with all exports - clone values to prevent mutation
-        const exportedObject: any = {};
-        
-        loadedModule.exports.forEach((item, name) => {
-          if (typeof item === 'object' && item.params !== undefined) {
-            // It's a function - create wrapper (functions are immutable)
-            exportedObject[name] = (...args: any[]) => {
-              return this.executeFunction(item, args);
-            };
-          } else {
-            // It's a variable - clone it to prevent mutation
-            exportedObject[name] = this.cloneValue(item);
-          }
-        });
-        
-        // IMPORTANT: Only add the alias object to context, NOT individual exports
-        // This prevents global scope pollution
-        this.context.variables.set(identifier, exportedObject);
-      }
-
-      return pos + match[0].length;
+      modulePath = varValue;
+    } else {
+      modulePath = statement.source.value;
+    }
+
+    if (modulePath.startsWith(STD_MODULE_PREFIX)) {
+      const stdModule = this.resolveStdModule(modulePath);
+      this.context.environment.define(identifier, Object.fromEntries(stdModule.exports));
+      return;
+    }
+
+    // First, normalize the path WITHOUT adding file extensions
+    // This allows us to check if it's a folder first
+    let fullPath = modulePath;
+    if (modulePath.startsWith('/')) {
+      fullPath = modulePath;
+    } else if (modulePath.startsWith('./') || modulePath.startsWith('../')) {
+      const lastSlash = this.currentFilePath.lastIndexOf('/');
+      const importingDir = lastSlash > 0 ? this.currentFilePath.substring(0, lastSlash) : '/';
+      if (importingDir === '/') {
+        fullPath = importingDir + modulePath;
+      } else {
+        fullPath = importingDir + '/' + modulePath;
+      }
+    } else {
+      fullPath = '/' + modulePath;
+    }
+
+    // Normalize path: remove duplicate slashes, resolve . and ..
+    const segments = fullPath.split('/');
+    const normalized: string[] = [];
+    for (const segment of segments) {
+      if (!segment || segment === '.') continue;
+      else if (segment === '..') {
+        if (normalized.length > 0) normalized.pop();
+      } else {
+        normalized.push(segment);
+      }
+    }
+    const canonicalPath = normalized.length > 0 ? '/' + normalized.join('/') : '/';
+
+    // Check if this is a folder (before adding extensions)
+    const fileTree = await storage.getFileTree();
+    const node = this.findNodeByPath(fileTree, canonicalPath);
+
+    if (node && node.type === 'folder') {
+      // This is a folder import - import all exports from all files in the folder
+      await this.importFolderExports(identifier, node);
+      return;
+    }
+
+    // It's a file import - now add extension if needed
+    let moduleFilePath = canonicalPath;
+    if (!moduleFilePath.endsWith('.fxm') && !moduleFilePath.endsWith('.fxo')) {
+      moduleFilePath = moduleFilePath + '.fxm';
+    }
+
+    // If not found as .fxm, try .fxo
+    if (
+      moduleFilePath.endsWith('.fxm') &&
+      !this.context.moduleCache.has(moduleFilePath) &&
+      !(await storage.getFileContent(moduleFilePath))
+    ) {
+      const fxoPath = moduleFilePath.replace(/\.fxm$/, '.fxo');
+      if (this.context.moduleCache.has(fxoPath) || await storage.getFileContent(fxoPath)) {
+        moduleFilePath = fxoPath;
+      }
+    }
+
+    const loadedModule = await this.resolveModule(moduleFilePath, modulePath, true);
+
+    if (loadedModule) {
+      // Create an object with all exports - clone values to prevent mutation
+      const exportedObject: any = {};
+
+      // A circular import gets an empty table, filled once the module has loaded
+      const cacheEntry = this.context.moduleCache.get(moduleFilePath);
+      if (cacheEntry && !cacheEntry.executed) {
+        cacheEntry.pendingAliases.push(exportedObject);
+      }
+
+      loadedModule.exports.forEach((_, name) => {
+        exportedObject[name] = this.wrapExport(loadedModule, name);
+      });
+
+      // IMPORTANT: Only add the alias object to context, NOT individual exports
+      // This prevents global scope pollution
+      this.context.environment.define(identifier, exportedObject);
     }
-    return pos + 1;
   }
-  
-  private async importFolderExports(identifier: string, folder: FileNode, endPos: number): Promise<number> {
+
+  private async importFolderExports(identifier: string, folder: FileNode) {
     // Import all exports from all files in a folder
     const allExports: any = {};
-    
-    if (folder.children) {
-      for (const file of folder.children) {
-        if (file.type === 'file' && (file.extension === '.fxo' || file.extension === '.fxm')) {
-          const content = await storage.getFileContent(file.path);
-          if (content) {
-            // Check if it's a module file
-            const moduleMatch = content.match(/module\s+(\w+)\s*\{/);
-            if (moduleMatch) {
-              const moduleName = moduleMatch[1];
-              await this.loadModule(content, file.path);
-              
-              const loadedModule = this.context.modules.get(moduleName);
-              if (loadedModule) {
-                // Add all exports from this module
-                loadedModule.exports.forEach((item, name) => {
-                  if (typeof item === 'object' && item.params !== undefined) {
-                    // It's a function
-                    allExports[name] = (...args: any[]) => {
-                      return this.executeFunction(item, args);
-                    };
-                  } else {
-                    // It's a variable - clone it
-                    allExports[name] = this.cloneValue(item);
-                  }
-                });
-              }
-            }
+
+    for (const file of this.folderModuleFiles(folder)) {
+      const content = await storage.getFileContent(file.path);
+      if (content) {
+        // Check if it's a module file
+        const moduleDecl = this.findModuleDeclaration(content, file.path);
+        if (moduleDecl) {
+          await this.loadModule(moduleDecl, file.path);
+
+          const loadedModule = this.context.modules.get(moduleDecl.name);
+          if (loadedModule) {
+            // Add all exports from this module
+            loadedModule.exports.forEach((_, name) => {
+              allExports[name] = this.wrapExport(loadedModule, name);
+            });
           }
         }
       }
     }
-    
-    this.context.variables.set(identifier, allExports);
-    return endPos;
+
+    this.context.environment.define(identifier, allExports);
+  }
+
+  // The module files of a folder, sorted by name so they always load in the same order
+  private folderModuleFiles(folder: FileNode): FileNode[] {
+    return ((folder.children ?? []) as FileNode[])
+      .filter(file => file.type === 'file' && (file.extension === '.fxo' || file.extension === '.fxm'))
+      .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
   }
 
-  private async parseRequire(code: string, pos: number): Promise<number> {
-    const match = code.substring(pos).match(/require\("([^"]+)"\)/);
-    if (match) {
-      const modulePath = match[1];
-      // Normalize the module path to handle relative imports
-      const moduleFilePath = this.normalizeModulePath(modulePath, this.currentFilePath);
+  private async executeRequire(statement: RequireStatement) {
+    const modulePath = statement.source;
+    // Normalize the module path to handle relative imports
+    const moduleFilePath = FluxoInterpreter.normalizeModulePath(modulePath, this.currentFilePath);
+    const loadedModule = await this.resolveModule(moduleFilePath, modulePath);
 
-      // Check global cache first
-      let loadedModule: FluxoModule | undefined;
-      const cacheEntry = FluxoInterpreter.globalModuleCache.get(moduleFilePath);
-      
-      if (cacheEntry) {
-        // Module already loaded in global cache - reuse it
-        loadedModule = cacheEntry.moduleObject;
-        this.context.modules.set(cacheEntry.moduleName, loadedModule);
-      } else {
-        // Module not in cache - load it
-        const moduleContent = await storage.getFileContent(moduleFilePath);
-        if (moduleContent) {
-          const moduleMatch = moduleContent.match(/module\s+(\w+)\s*\{/);
-          if (moduleMatch) {
-            const moduleName = moduleMatch[1];
-            try {
-              await this.loadModule(moduleContent, moduleFilePath);
-              loadedModule = this.context.modules.get(moduleName);
-            } catch (error: any) {
-              throw new Error(`Failed to load module from ${moduleFilePath}: ${error.message}`);
-            }
-          } else {
-            throw new Error(
-              `Invalid module file: ${moduleFilePath}\n` +
-              `Expected format: module moduleName { ... }`
-            );
-          }
-        } else {
-          const suggestion = moduleFilePath.endsWith('.fxm') ? '' : `\nDid you mean: "${modulePath}.fxm"?`;
-          throw new Error(
-            `Module not found: ${moduleFilePath}\n` +
-            `Make sure the file exists in your workspace.${suggestion}`
-          );
-        }
-      }
-      
-      if (loadedModule) {
-        const moduleProxy: any = {};
-        loadedModule.exports.forEach((item, name) => {
-          if (typeof item === 'object' && item.params !== undefined) {
-            // It's a function - create wrapper (functions are immutable)
-            moduleProxy[name] = (...args: any[]) => {
-              return this.executeFunction(item, args);
-            };
-          } else {
-            // It's a variable - clone it to prevent mutation
-            moduleProxy[name] = this.cloneValue(item);
-          }
-        });
-        
-        // Add to global scope only for require() and import() (legacy behavior)
-        this.context.variables.set(loadedModule.name, moduleProxy);
-      }
+    if (loadedModule) {
+      const moduleProxy: any = {};
+      loadedModule.exports.forEach((_, name) => {
+        moduleProxy[name] = this.wrapExport(loadedModule, name);
+      });
 
-      return pos + match[0].length;
+      // Add to global scope only for require() and import() (legacy behavior)
+      this.context.environment.define(loadedModule.name, moduleProxy);
     }
-    return pos + 1;
   }
 
-  private async parseModuleFolder(code: string, pos: number): Promise<number> {
-    const match = code.substring(pos).match(/module\s+folder\s+"([^"]+)"\s+as\s+(\w+)/);
-    if (match) {
-      const folderPath = match[1];
-      const alias = match[2];
-      const fullPath = folderPath.startsWith('/') ? folderPath : `/${folderPath}`;
+  private async executeModuleFolder(statement: ModuleFolderImport) {
+    const { folderPath, alias } = statement;
+    const fullPath = folderPath.startsWith('/') ? folderPath : `/${folderPath}`;
 
-      try {
-        const fileTree = await storage.getFileTree();
-        const folder = this.findNodeByPath(fileTree, fullPath);
-        
-        if (!folder || folder.type !== 'folder') {
-          throw new Error(`Folder not found: ${folderPath}`);
-        }
+    try {
+      const fileTree = await storage.getFileTree();
+      const folder = this.findNodeByPath(fileTree, fullPath);
+
+      if (!folder || folder.type !== 'folder') {
+        throw new Error(`Folder not found: ${folderPath}`);
+      }
+
+      const folderModules: Record<string, any> = {};
+
+      for (const file of this.folderModuleFiles(folder)) {
+        const content = await storage.getFileContent(file.path);
+        if (content) {
+          const fileName = file.name.replace(/\.(fxo|fxm)$/, '');
+
+          const moduleDecl = this.findModuleDeclaration(content, file.path);
+          if (moduleDecl) {
+            await this.loadModule(moduleDecl, file.path);
 
-        const folderModules: Record<string, any> = {};
-
-        if (folder.children) {
-          for (const file of folder.children) {
-            if (file.type === 'file' && (file.extension === '.fxo' || file.extension === '.fxm')) {
-              const content = await storage.getFileContent(file.path);
-              if (content) {
-                const fileName = file.name.replace(/\.(fxo|fxm)$/, '');
-                
-                const moduleMatch = content.match(/module\s+(\w+)\s*\{/);
-                if (moduleMatch) {
-                  const moduleName = moduleMatch[1];
-                  await this.loadModule(content, file.path);
-                  
-                  const loadedModule = this.context.modules.get(moduleName);
-                  if (loadedModule) {
-                    const exportedFunctions: Record<string, any> = {};
-                    loadedModule.exports.forEach((func, name) => {
-                      exportedFunctions[name] = (...args: any[]) => {
-                        return this.executeFunction(func, args);
-                      };
-                    });
-                    folderModules[fileName] = exportedFunctions;
-                  }
-                }
-              }
+            const loadedModule = this.context.modules.get(moduleDecl.name);
+            if (loadedModule) {
+              const exportedFunctions: Record<string, any> = {};
+              loadedModule.exports.forEach((_, name) => {
+                exportedFunctions[name] = this.wrapExport(loadedModule, name);
+              });
+              folderModules[fileName] = exportedFunctions;
             }
           }
         }
-
-        this.context.variables.set(alias, folderModules);
-        this.addOutput('log', `Loaded ${Object.keys(folderModules).length} modules from ${folderPath} as ${alias}`);
-      } catch (error: any) {
-        throw new Error(`Failed to load folder modules: ${error.message}`);
       }
 
-      return pos + match[0].length;
+      this.context.environment.define(alias, folderModules);
+      this.addOutput('log', `Loaded ${Object.keys(folderModules).length} modules from ${folderPath} as ${alias}`);
+    } catch (error: any) {
+      throw this.prefixError(`Failed to load folder modules: `, error);
     }
-    return pos + 1;
   }
 
   private findNodeByPath(nodes: any[], path: string): any {
@@ -791,47 +1228,22 @@ export class FluxoInterpreter {
     return null;
   }
 
-  private async parseModule(code: string, pos: number): Promise<number> {
-    const nameMatch = code.substring(pos).match(/module\s+(\w+)\s*\{/);
-    if (!nameMatch) return pos + 1;
-
-    const moduleName = nameMatch[1];
-    const bracePos = pos + nameMatch[0].length - 1;
-    const endPos = this.findMatchingBrace(code, bracePos);
-    const moduleBody = code.substring(bracePos + 1, endPos - 1);
-
-    await this.loadModule(`module ${moduleName} {${moduleBody}}`, this.currentFilePath);
-
-    return endPos;
-  }
-
-  private async loadModule(moduleCode: string, moduleFilePath?: string) {
-    const match = moduleCode.match(/module\s+(\w+)\s*\{([\s\S]*)\}/);
-    if (!match) return;
-
-    const moduleName = match[1];
-    const moduleBody = match[2];
+  private async loadModule(moduleDecl: ModuleDeclaration, moduleFilePath?: string) {
+    const moduleName = moduleDecl.name;
     const actualFilePath = moduleFilePath || this.currentFilePath;
-    
-    // Check if this module is already in the global cache
-    const existingCache = FluxoInterpreter.globalModuleCache.get(actualFilePath);
+
+    // Check if this module is already in the run's module cache
+    const existingCache = this.context.moduleCache.get(actualFilePath);
     if (existingCache) {
       // Module already executed - just register it in this context
-      this.context.modules.set(moduleName, existingCache.moduleObject);
+      await this.useCachedModule(existingCache);
       return;
     }
 
-    const moduleObj: FluxoModule = {
-      name: moduleName,
-      exports: new Map(),
-      variables: new Map(),
-    };
-
     // Check if this file is allowed to use export {} syntax
     const isModuleFile = actualFilePath.endsWith('.fxm');
-    // More precise regex that won't match import statements
-    const hasExportBlock = /(?:^|\n)\s*export\s*\{[\s\S]*?\}/.test(moduleBody);
-    
+    const hasExportBlock = moduleDecl.body.some(s => s.type === 'ExportList');
+
     if (hasExportBlock && !isModuleFile) {
       throw new Error(
         `Syntax Error: export { } can only be used in module files (.fxm).\n` +
@@ -840,77 +1252,105 @@ export class FluxoInterpreter {
       );
     }
 
+    // The module body runs in its own interpreter so module-level variables
+    // stay private, while output and the module registry are shared. Functions
+    // declared in the module close over its top-level scope.
+    const moduleScope = new FluxoInterpreter(actualFilePath);
+    moduleScope.context.modules = this.context.modules;
+    moduleScope.context.output = this.context.output;
+    moduleScope.context.callStack = this.context.callStack;
+    moduleScope.context.loadingModules = this.context.loadingModules;
+    moduleScope.context.moduleCache = this.context.moduleCache;
+    moduleScope.context.moduleInitOrder = this.context.moduleInitOrder;
+    moduleScope.context.budget = this.context.budget;
+    moduleScope.context.cancellation = this.context.cancellation;
+    moduleScope.context.tasks = this.context.tasks;
+    moduleScope.context.startedAt = this.context.startedAt;
+    moduleScope.context.task = this.context.task;
+    moduleScope.context.onOutput = this.context.onOutput;
+    moduleScope.context.requestInput = this.context.requestInput;
+
+    const moduleObj: FluxoModule = {
+      name: moduleName,
+      exports: new Map(),
+      variables: new Map(),
+      constants: new Set(),
+    };
+
+    // CRITICAL: Store in the run's module cache before the body runs, so other
+    // files reuse the same module and circular imports are detected
+    let finishLoading!: () => void;
+    const cacheEntry: ModuleCacheEntry = {
+      moduleName: moduleName,
+      moduleObject: moduleObj,
+      filePath: actualFilePath,
+      executed: false,
+      loaded: new Promise<void>(resolve => finishLoading = resolve),
+      pendingAliases: [],
+    };
+    this.context.moduleCache.set(actualFilePath, cacheEntry);
+
     // First pass: Execute the module body to collect variables and functions
-    // We need to execute variables before export block
-    const cleanBody = moduleBody.replace(/export\s*\{[\s\S]*?\}/g, ''); // Remove export block temporarily
-    await this.executeModuleBody(cleanBody, moduleObj);
-
-    // Second pass: Parse exports
-    let pos = 0;
-    while (pos < moduleBody.length) {
-      pos = this.skipWhitespace(moduleBody, pos);
-      if (pos >= moduleBody.length) break;
-
-      if (moduleBody.substring(pos).startsWith('export function ')) {
-        const funcMatch = moduleBody.substring(pos).match(/export\s+function\s+(\w+)\s*\(([^)]*)\)\s*\{/);
-        if (funcMatch) {
-          const funcName = funcMatch[1];
-          const paramsStr = funcMatch[2].trim();
-          let params: string[];
-          let hasRestParam = false;
-
-          if (paramsStr.includes('...')) {
-            hasRestParam = true;
-            params = [paramsStr.replace('...', '').trim()];
-          } else {
-            params = paramsStr.split(',').map(p => p.trim()).filter(p => p);
-          }
+    // (export blocks are resolved afterwards, once everything is defined)
+    this.context.callStack.push({ functionName: `<module ${moduleName}>`, filePath: actualFilePath });
+    this.context.loadingModules.push(actualFilePath);
+    try {
+      for (const statement of moduleDecl.body) {
+        if (statement.type === 'ExportList') continue;
+        await moduleScope.executeStatement(statement);
+      }
+    } catch (error) {
+      // A module that failed to load is loaded afresh by the next import
+      this.context.moduleCache.delete(actualFilePath);
+      finishLoading();
+      throw error;
+    } finally {
+      this.context.loadingModules.pop();
+      this.context.callStack.pop();
+    }
 
-          const bracePos = pos + funcMatch[0].length - 1;
-          const endPos = this.findMatchingBrace(moduleBody, bracePos);
-          const body = moduleBody.substring(bracePos + 1, endPos - 1);
+    // Functions live alongside variables, so both can be exported with export {}
+    for (const [name, value] of moduleScope.context.globals.entries()) {
+      moduleObj.variables.set(name, value);
+    }
 
-          moduleObj.exports.set(funcName, { params, body, hasRestParam });
-          pos = endPos;
-        } else {
-          pos++;
-        }
-      } else if (moduleBody.substring(pos).startsWith('export {')) {
+    // Second pass: Collect exports
+    for (const statement of moduleDecl.body) {
+      if ((statement.type === 'FunctionDeclaration' || statement.type === 'ClassDeclaration') && statement.exported) {
+        moduleObj.exports.set(statement.name, moduleScope.context.globals.get(statement.name));
+      } else if (statement.type === 'ExportList') {
         // Handle export { var1, var2, func1 } syntax - supports both variables and functions
-        const exportMatch = moduleBody.substring(pos).match(/export\s*\{([^}]+)\}/);
-        if (exportMatch) {
-          const exportList = exportMatch[1].split(',').map(name => name.trim()).filter(n => n);
-          exportList.forEach(varName => {
-            // Check if already exported via export function (don't duplicate)
-            if (moduleObj.exports.has(varName)) {
-              // Already exported, keep it
-            } else if (moduleObj.variables.has(varName)) {
-              // Export it - works for both variables and functions
-              moduleObj.exports.set(varName, moduleObj.variables.get(varName));
-            } else {
-              this.addOutput('warning', `Variable or function '${varName}' not found in module '${moduleName}' for export`);
+        statement.names.forEach(varName => {
+          // Check if already exported via export function (don't duplicate)
+          if (moduleObj.exports.has(varName)) {
+            // Already exported, keep it
+          } else if (moduleObj.variables.has(varName)) {
+            // Export it - works for both variables and functions
+            moduleObj.exports.set(varName, moduleObj.variables.get(varName));
+            if (moduleScope.context.globals.isConstant(varName)) {
+              moduleObj.constants.add(varName);
             }
-          });
-          pos += exportMatch[0].length;
-        } else {
-          pos++;
-        }
-      } else {
-        pos++;
+          } else {
+            this.addOutput('warning', `Variable or function '${varName}' not found in module '${moduleName}' for export`);
+          }
+        });
       }
     }
 
-    // Store in both instance context and global cache
+    // Store in the instance context and mark the cached module as loaded
     this.context.modules.set(moduleName, moduleObj);
-    
-    // CRITICAL: Store in global cache so other files reuse the same module
-    FluxoInterpreter.globalModuleCache.set(actualFilePath, {
-      moduleName: moduleName,
-      moduleObject: moduleObj,
-      filePath: actualFilePath,
-      executed: true,
-    });
-    
+    cacheEntry.executed = true;
+    this.context.moduleInitOrder.push(actualFilePath);
+
+    // Fill in the tables of circular `import alias` statements
+    for (const table of cacheEntry.pendingAliases) {
+      moduleObj.exports.forEach((_, name) => {
+        table[name] = this.wrapExport(moduleObj, name);
+      });
+    }
+    cacheEntry.pendingAliases = [];
+    finishLoading();
+
     // Note: We no longer add modules to global scope automatically
     // Modules must be explicitly imported using:
     // - import from "module" { exports } (selective import)
@@ -918,653 +1358,1040 @@ export class FluxoInterpreter {
     // - require("module") (legacy, for backward compatibility)
   }
 
-  private async executeModuleBody(body: string, moduleObj: FluxoModule) {
-    // Execute the module body to collect variables
-    // Similar to parseAndExecute but stores in module context
-    // Create a temporary context to evaluate expressions within the module scope
-    const savedVariables = new Map(this.context.variables);
-    const savedFunctions = new Map(this.context.functions);
-    
-    let pos = 0;
-    while (pos < body.length) {
-      pos = this.skipWhitespace(body, pos);
-      if (pos >= body.length) break;
-
-      if (body.substring(pos).startsWith('local ')) {
-        const end = this.findStatementEnd(body, pos);
-        const statement = body.substring(pos, end);
-        const match = statement.match(/local\s+(\w+)\s*=\s*(.+)/);
-
-        if (match) {
-          const varName = match[1];
-          const value = await this.evaluateExpression(match[2]);
-          moduleObj.variables.set(varName, value);
-          // Temporarily set in context only for evaluation within the module
-          this.context.variables.set(varName, value);
-        }
-        pos = end;
-      } else if (body.substring(pos).startsWith('function ')) {
-        const match = body.substring(pos).match(/function\s+(\w+)\s*\(([^)]*)\)\s*\{/);
-        if (match) {
-          const funcName = match[1];
-          const paramsStr = match[2].trim();
-          let params: string[];
-          let hasRestParam = false;
-
-          if (paramsStr.includes('...')) {
-            hasRestParam = true;
-            params = [paramsStr.replace('...', '').trim()];
-          } else {
-            params = paramsStr.split(',').map(p => p.trim()).filter(p => p);
-          }
+  private createFunction(declaration: FunctionDeclaration | FunctionExpression): FluxoFunction {
+    return {
+      [FLUXO_FUNCTION]: true,
+      name: declaration.name ?? '<anonymous>',
+      filePath: this.currentFilePath,
+      params: declaration.params,
+      body: declaration.body,
+      hasRestParam: declaration.hasRestParam,
+      closure: this.context.environment,
+    };
+  }
 
-          const bracePos = pos + match[0].length - 1;
-          const endPos = this.findMatchingBrace(body, bracePos);
-          const funcBody = body.substring(bracePos + 1, endPos - 1);
+  private isFluxoFunction(value: any): value is FluxoFunction {
+    return typeof value === 'object' && value !== null && value[FLUXO_FUNCTION] === true;
+  }
 
-          const funcDef = { params, body: funcBody, hasRestParam };
-          // Store functions in moduleObj.variables so they can be exported later with export {}
-          moduleObj.variables.set(funcName, funcDef);
-          // Temporarily register in context.functions for evaluation within the module
-          this.context.functions.set(funcName, funcDef);
-          pos = endPos;
-        } else {
-          pos++;
-        }
-      } else {
-        pos++;
+  private async createClass(declaration: ClassDeclaration): Promise<FluxoClass> {
+    let parent: FluxoClass | undefined;
+    if (declaration.parent) {
+      const value = await this.evaluateExpression(declaration.parent);
+      if (!this.isFluxoClass(value)) {
+        throw this.runtimeError(`Type Error: class ${declaration.name} can only extend a class, got ${this.typeName(value)}`, declaration.parent);
       }
+      parent = value;
+    }
+    // Methods are named Class.method in stack traces
+    const methods = new Map<string, FluxoFunction>();
+    for (const method of declaration.methods) {
+      methods.set(method.name, { ...this.createFunction(method), name: `${declaration.name}.${method.name}` });
     }
-    
-    // Restore the context to remove module-scoped variables/functions
-    // Only keep variables/functions that were there before
-    this.context.variables = savedVariables;
-    this.context.functions = savedFunctions;
+    return { [FLUXO_CLASS]: true, name: declaration.name, parent, methods };
   }
 
-  private parseFunctionDeclaration(code: string, pos: number): number {
-    const match = code.substring(pos).match(/(?:export\s+)?function\s+(\w+)\s*\(([^)]*)\)\s*\{/);
-    if (!match) return pos + 1;
-
-    const funcName = match[1];
-    const paramsStr = match[2].trim();
-    let params: string[];
-    let hasRestParam = false;
+  private isFluxoClass(value: any): value is FluxoClass {
+    return typeof value === 'object' && value !== null && value[FLUXO_CLASS] === true;
+  }
 
-    if (paramsStr.includes('...')) {
-      hasRestParam = true;
-      params = [paramsStr.replace('...', '').trim()];
-    } else {
-      params = paramsStr.split(',').map(p => p.trim()).filter(p => p);
+  private findMethod(cls: FluxoClass, name: string): FluxoFunction | undefined {
+    for (let current: FluxoClass | undefined = cls; current; current = current.parent) {
+      const method = current.methods.get(name);
+      if (method) return method;
     }
-
-    const bracePos = pos + match[0].length - 1;
-    const endPos = this.findMatchingBrace(code, bracePos);
-    const body = code.substring(bracePos + 1, endPos - 1);
-
-    this.context.functions.set(funcName, { params, body, hasRestParam });
-
-    return endPos;
+    return undefined;
   }
 
-  private async parseVariableDeclaration(code: string, pos: number): Promise<number> {
-    const end = this.findStatementEnd(code, pos);
-    const statement = code.substring(pos, end);
-    const match = statement.match(/local\s+(\w+)\s*=\s*(.+)/);
-
-    if (match) {
-      const varName = match[1];
-      const value = await this.evaluateExpression(match[2]);
-      this.context.variables.set(varName, value);
+  // Calling a class makes an instance and runs new(self, ...) on it, if the
+  // class or a parent defines it
+  private async instantiate(cls: FluxoClass, args: any[], named?: Map<string, any>): Promise<Record<string, any>> {
+    const instance: Record<string, any> = {};
+    instanceClasses.set(instance, cls);
+    const init = this.findMethod(cls, 'new');
+    if (init) {
+      await this.executeFunction(init, [instance, ...args], named ? { named, implicit: 1 } : null);
+    } else if (args.length > 0 || (named && named.size > 0)) {
+      throw new Error(`Runtime Error: class ${cls.name} has no new() method, so it takes no arguments`);
     }
-
-    return end;
+    return instance;
   }
 
-  private async parseWaitStatement(code: string, pos: number): Promise<number> {
-    const match = code.substring(pos).match(/wait\s*\(([^)]+)\)\s*\{/);
-    if (!match) return pos + 1;
-
-    const secondsExpr = match[1];
-    const seconds = await this.evaluateExpression(secondsExpr);
-    const bracePos = pos + match[0].length - 1;
-    const endPos = this.findMatchingBrace(code, bracePos);
-    const body = code.substring(bracePos + 1, endPos - 1);
-
-    // Wait for the specified duration
-    await new Promise(resolve => setTimeout(resolve, seconds * 1000));
-    
-    // Execute the block after waiting
-    await this.executeBlock(body);
+  // Members are frozen tables { name, value }, so they can be compared with ==
+  // and read like any table but never changed
+  private createEnum(declaration: EnumDeclaration): FluxoEnum {
+    const fluxoEnum: FluxoEnum = { [FLUXO_ENUM]: true, name: declaration.name, members: [] };
+    declaration.members.forEach((name, value) => {
+      const member = Object.freeze({ name, value });
+      enumMembers.set(member, fluxoEnum);
+      fluxoEnum.members.push(member);
+    });
+    return fluxoEnum;
+  }
 
-    return endPos;
+  private isFluxoEnum(value: any): value is FluxoEnum {
+    return typeof value === 'object' && value !== null && value[FLUXO_ENUM] === true;
   }
 
-  private async parseIfStatement(code: string, pos: number): Promise<number> {
-    const match = code.substring(pos).match(/if\s*\(([^)]+)\)\s*\{/);
-    if (!match) return pos + 1;
+  // Fluxo functions, classes and builtins
+  private isCallable(value: any): boolean {
+    return this.isFluxoFunction(value) || this.isFluxoClass(value) || typeof value === 'function';
+  }
 
-    const condition = await this.evaluateExpression(match[1]);
-    const bracePos = pos + match[0].length - 1;
-    const endPos = this.findMatchingBrace(code, bracePos);
-    const body = code.substring(bracePos + 1, endPos - 1);
+  private async executeIf(statement: IfStatement) {
+    for (const clause of statement.clauses) {
+      if (await this.evaluateExpression(clause.condition)) {
+        await this.executeBlock(clause.body);
+        return;
+      }
+    }
+    if (statement.alternate) {
+      await this.executeBlock(statement.alternate);
+    }
+  }
 
-    if (condition) {
-      await this.executeBlock(body);
-      return this.skipElseChain(code, endPos);
-    } else {
-      let currentPos = endPos;
-      
-      while (true) {
-        const elseifMatch = code.substring(currentPos).match(/\s*elseif\s*\(([^)]+)\)\s*\{/);
-        if (elseifMatch) {
-          const elseifCondition = await this.evaluateExpression(elseifMatch[1]);
-          const elseifBracePos = currentPos + elseifMatch[0].length - 1;
-          const elseifEndPos = this.findMatchingBrace(code, elseifBracePos);
-          const elseifBody = code.substring(elseifBracePos + 1, elseifEndPos - 1);
-          
-          if (elseifCondition) {
-            await this.executeBlock(elseifBody);
-            return this.skipElseChain(code, elseifEndPos);
+  // The first case with a matching pattern and a true guard runs, with the
+  // names its pattern bound in scope. If no case matches nothing runs.
+  private async executeMatch(statement: MatchStatement) {
+    const subject = await this.evaluateExpression(statement.subject);
+    for (const matchCase of statement.cases) {
+      for (const pattern of matchCase.patterns) {
+        const bindings = new Map<string, any>();
+        if (!await this.matchPattern(pattern, subject, bindings)) continue;
+
+        const environment = new FluxoEnvironment(this.context.environment);
+        bindings.forEach((value, name) => environment.define(name, value));
+        if (matchCase.guard) {
+          const previous = this.context.environment;
+          this.context.environment = environment;
+          try {
+            if (!await this.evaluateExpression(matchCase.guard)) continue;
+          } finally {
+            this.context.environment = previous;
           }
-          
-          currentPos = elseifEndPos;
-        } else {
-          break;
         }
+        await this.executeBlock(matchCase.body, environment);
+        return;
       }
-      
-      const elseMatch = code.substring(currentPos).match(/\s*else\s*\{/);
-      if (elseMatch) {
-        const elseBracePos = currentPos + elseMatch[0].length - 1;
-        const elseEndPos = this.findMatchingBrace(code, elseBracePos);
-        const elseBody = code.substring(elseBracePos + 1, elseEndPos - 1);
-        await this.executeBlock(elseBody);
-        return elseEndPos;
+    }
+  }
+
+  // Whether `value` fits `pattern`; the names it binds are added to `bindings`
+  private async matchPattern(pattern: Pattern, value: any, bindings: Map<string, any>): Promise<boolean> {
+    switch (pattern.type) {
+      case 'WildcardPattern':
+        return true;
+      case 'BindingPattern':
+        bindings.set(pattern.name, value);
+        return true;
+      case 'ValuePattern':
+        return value === await this.evaluateExpression(pattern.value);
+      case 'ListPattern': {
+        if (!Array.isArray(value)) return false;
+        const count = pattern.elements.length;
+        if (pattern.rest === undefined ? value.length !== count : value.length < count) return false;
+        for (let i = 0; i < count; i++) {
+          if (!await this.matchPattern(pattern.elements[i], value[i], bindings)) return false;
+        }
+        if (pattern.rest !== undefined) {
+          bindings.set(pattern.rest, value.slice(count));
+        }
+        return true;
       }
-      
-      return currentPos;
+      case 'TablePattern':
+        if (!this.isTable(value)) return false;
+        for (const entry of pattern.entries) {
+          if (!await this.matchPattern(entry.value, this.getMember(value, entry.key), bindings)) return false;
+        }
+        return true;
     }
   }
 
-  private skipElseChain(code: string, pos: number): number {
-    let currentPos = pos;
-    
-    while (true) {
-      const elseifMatch = code.substring(currentPos).match(/\s*elseif\s*\(([^)]+)\)\s*\{/);
-      if (elseifMatch) {
-        const elseifBracePos = currentPos + elseifMatch[0].length - 1;
-        const elseifEndPos = this.findMatchingBrace(code, elseifBracePos);
-        currentPos = elseifEndPos;
-      } else {
-        break;
+  // local { a, b } = value and destructured parameters. Missing table keys
+  // bind undefined; anything else that does not fit is an error.
+  private async destructure(
+    pattern: Pattern,
+    value: any,
+    environment: FluxoEnvironment,
+    constant: boolean,
+    node: NodeLocation
+  ) {
+    const bindings = new Map<string, any>();
+    if (!await this.matchPattern(pattern, value, bindings)) {
+      if (pattern.type === 'ListPattern' && !Array.isArray(value)) {
+        throw this.runtimeError(`Type Error: Cannot destructure ${this.typeName(value)} as a list`, node);
+      }
+      if (pattern.type === 'TablePattern' && !this.isTable(value)) {
+        throw this.runtimeError(`Type Error: Cannot destructure ${this.typeName(value)} as a table`, node);
       }
+      if (pattern.type === 'ListPattern' && !pattern.rest && value.length !== pattern.elements.length) {
+        throw this.runtimeError(
+          `Runtime Error: Cannot destructure a list of ${value.length} items into a pattern of ${pattern.elements.length}`,
+          node
+        );
+      }
+      throw this.runtimeError(`Runtime Error: Value does not match the destructuring pattern`, node);
     }
-    
-    const elseMatch = code.substring(currentPos).match(/\s*else\s*\{/);
-    if (elseMatch) {
-      const elseBracePos = currentPos + elseMatch[0].length - 1;
-      const elseEndPos = this.findMatchingBrace(code, elseBracePos);
-      return elseEndPos;
+    bindings.forEach((item, name) => {
+      if (constant) {
+        environment.defineConstant(name, item);
+      } else {
+        environment.define(name, item);
+      }
+    });
+  }
+
+  // Runaway loops are stopped by the execution budget
+  private async executeWhile(statement: WhileStatement) {
+    while (await this.evaluateExpression(statement.condition)) {
+      await this.context.cancellation.checkpoint();
+      await this.executeBlock(statement.body);
+      if (this.context.shouldReturn || this.shouldExitLoop(statement.label)) break;
     }
-    
-    return currentPos;
   }
 
-  private async parseWhileLoop(code: string, pos: number): Promise<number> {
-    const match = code.substring(pos).match(/while\s*\(([^)]+)\)\s*\{/);
-    if (!match) return pos + 1;
+  private async executeFor(statement: ForStatement) {
+    // A `local` in the loop header is scoped to the loop
+    const previous = this.context.environment;
+    this.context.environment = new FluxoEnvironment(previous);
+    try {
+      if (statement.init) {
+        await this.executeStatement(statement.init);
+      }
 
-    const conditionExpr = match[1];
-    const bracePos = pos + match[0].length - 1;
-    const endPos = this.findMatchingBrace(code, bracePos);
-    const body = code.substring(bracePos + 1, endPos - 1);
+      while (!statement.condition || await this.evaluateExpression(statement.condition)) {
+        await this.context.cancellation.checkpoint();
+        await this.executeBlock(statement.body);
+        if (this.context.shouldReturn || this.shouldExitLoop(statement.label)) break;
+        if (statement.update) {
+          await this.executeStatement(statement.update);
+        }
+      }
+    } finally {
+      this.context.environment = previous;
+    }
+  }
 
-    let iterations = 0;
-    const maxIterations = 10000;
+  private async executeForIn(statement: ForInStatement) {
+    const iterable = await this.evaluateExpression(statement.iterable);
+    for await (const values of this.iterate(iterable, statement.variables.length, statement)) {
+      await this.context.cancellation.checkpoint();
+      // Each pass gets fresh variables, so closures keep the values of their pass
+      const environment = new FluxoEnvironment(this.context.environment);
+      statement.variables.forEach((name, i) => environment.define(name, values[i]));
+      await this.executeBlock(statement.body, environment);
+      if (this.context.shouldReturn || this.shouldExitLoop(statement.label)) break;
+    }
+  }
 
-    while (await this.evaluateExpression(conditionExpr) && iterations < maxIterations) {
-      await this.executeBlock(body);
-      if (this.context.shouldReturn) break;
-      iterations++;
+  // The iterator protocol. Lists and strings (by character) are iterated
+  // directly. Otherwise the iterable is an iterator function, or a table whose
+  // iterator() method returns one, called like iterable:iterator() so it gets
+  // the table as self: each call gives the next value, and null or undefined
+  // ends the loop. Yields the values for the loop variables.
+  private async *iterate(iterable: any, variableCount: number, node: NodeLocation): AsyncGenerator<any[]> {
+    if (Array.isArray(iterable) || typeof iterable === 'string' || this.isFluxoEnum(iterable)) {
+      const items = typeof iterable === 'string' ? Array.from(iterable) : this.isFluxoEnum(iterable) ? iterable.members : iterable;
+      for (let i = 0; i < items.length; i++) {
+        yield variableCount === 1 ? [items[i]] : [i, items[i]];
+      }
+      return;
+    }
+
+    let next = iterable;
+    const iterator = this.isTable(iterable) ? this.getMember(iterable, 'iterator') : undefined;
+    if (this.isCallable(iterator)) {
+      const args: any[] = [];
+      next = await this.callFunction(this.bindMethod(iterable, iterator, args), args, iterable);
+      if (!this.isCallable(next)) {
+        throw this.runtimeError(`Type Error: iterator() must return a function, got ${this.typeName(next)}`, node);
+      }
+    }
+    if (!this.isCallable(next)) {
+      const hint = this.isTable(iterable) ? '; use pairs(table) to loop over its keys and values' : '';
+      throw this.runtimeError(`Type Error: Cannot iterate over ${this.typeName(iterable)}${hint}`, node);
     }
 
-    return endPos;
+    while (true) {
+      const value = await this.callFunction(next, []);
+      if (value === null || value === undefined) return;
+      yield variableCount > 1 && Array.isArray(value) ? value : [value];
+    }
   }
 
-  private async parseForLoop(code: string, pos: number): Promise<number> {
-    const match = code.substring(pos).match(/for\s*\(([^;]+);([^;]+);([^)]+)\)\s*\{/);
-    if (!match) return pos + 1;
+  // Waits are bounded by the budget and cut short when the run is cancelled.
+  // Other tasks take their turn meanwhile.
+  private async sleep(seconds: number) {
+    const ms = seconds * 1000;
+    this.context.budget.checkWait(ms);
+    await this.context.tasks.yieldWhile(this.context.cancellation.sleep(ms));
+  }
 
-    const init = match[1].trim();
-    const conditionExpr = match[2].trim();
-    const increment = match[3].trim();
-    const bracePos = pos + match[0].length - 1;
-    const endPos = this.findMatchingBrace(code, bracePos);
-    const body = code.substring(bracePos + 1, endPos - 1);
+  // Wait for something another task provides (a message, its result). The
+  // wait ends early if this task is cancelled or the run runs out of time.
+  private waitFor<T>(promise: Promise<T>): Promise<T> {
+    return this.context.tasks.yieldWhile(this.context.budget.withinTime(this.context.cancellation.race(promise)));
+  }
 
-    await this.parseStatement(init, 0);
+  private async receive(channel: FluxoChannel): Promise<any> {
+    const { value, abandon } = channel.receive();
+    try {
+      return await this.waitFor(value);
+    } catch (error) {
+      abandon();
+      throw error;
+    }
+  }
 
-    let iterations = 0;
-    const maxIterations = 10000;
+  // `await task` gives the task's result and rethrows its error; `await [a, b]`
+  // waits for each task in turn and gives a list of results
+  private async evaluateAwait(expr: AwaitExpression): Promise<any> {
+    const value = await this.evaluateExpression(expr.argument);
+    if (!Array.isArray(value)) {
+      return this.awaitTask(value, expr);
+    }
+    const results: any[] = [];
+    for (const item of value) {
+      results.push(await this.awaitTask(item, expr));
+    }
+    return results;
+  }
 
-    while (await this.evaluateExpression(conditionExpr) && iterations < maxIterations) {
-      await this.executeBlock(body);
-      if (this.context.shouldReturn) break;
-      await this.parseStatement(increment, 0);
-      iterations++;
+  private async awaitTask(handle: any, node: NodeLocation): Promise<any> {
+    const task = this.isTable(handle) ? taskHandles.get(handle) : undefined;
+    if (!task) {
+      throw this.runtimeError(`Type Error: await expects a task from spawn(), got ${this.typeName(handle)}`, node);
     }
+    task.awaiters++;
+    try {
+      await this.waitFor(task.done);
+    } finally {
+      task.awaiters--;
+    }
+    if (task.status === 'failed') throw task.error;
+    if (task.status === 'cancelled') {
+      throw this.runtimeError(`Runtime Error: Task '${task.name}' was cancelled`, node);
+    }
+    return task.result;
+  }
 
-    return endPos;
+  // Pauses the run until the user answers in the IDE terminal. Time spent
+  // waiting for the answer does not count against the time budget.
+  private async readInput(prompt?: any): Promise<string> {
+    if (!this.context.requestInput) {
+      throw new Error('Runtime Error: input() is only available when running from the IDE');
+    }
+    const text = prompt === undefined || prompt === null ? '' : await this.toText(prompt);
+    const answer = this.context.requestInput(text);
+    return await this.context.tasks.yieldWhile(this.context.budget.excludeTime(this.context.cancellation.race(answer)));
   }
 
-  private async parseReturn(code: string, pos: number): Promise<number> {
-    const end = this.findStatementEnd(code, pos);
-    const statement = code.substring(pos, end);
-    const value = statement.substring(7).trim();
-    this.context.returnValue = await this.evaluateExpression(value);
-    this.context.shouldReturn = true;
-    return end;
+  // Consume a pending break/continue aimed at this loop. A labelled signal for
+  // an outer loop is left in place so it keeps unwinding.
+  private shouldExitLoop(label?: string): boolean {
+    const signal = this.context.loopSignal;
+    if (!signal) return false;
+    if (signal.label !== undefined && signal.label !== label) return true;
+    this.context.loopSignal = undefined;
+    return signal.kind === 'break';
   }
 
-  private async parseStatement(code: string, pos: number): Promise<number> {
-    const end = this.findStatementEnd(code, pos);
-    const statement = code.substring(pos, end).trim();
+  private async executeTry(statement: TryStatement) {
+    // The error that will propagate once the finally block has run, if any
+    let pending: FluxoError | undefined;
+    try {
+      await this.executeBlock(statement.body);
+    } catch (error: any) {
+      pending = this.toFluxoError(error, statement);
+    }
 
-    if (!statement) return end;
+    if (pending && statement.handler && this.isCatchable(pending)) {
+      const environment = new FluxoEnvironment(this.context.environment);
+      if (statement.param) {
+        environment.define(statement.param, this.errorToValue(pending));
+      }
+      pending = undefined;
+      try {
+        await this.executeBlock(statement.handler, environment);
+      } catch (error: any) {
+        pending = this.toFluxoError(error, statement);
+      }
+    }
 
-    if (statement.includes('=') && !statement.includes('==') && !statement.includes('!=') && !statement.includes('<=') && !statement.includes('>=')) {
-      const parts = statement.split('=');
-      const varName = parts[0].trim();
-      const value = await this.evaluateExpression(parts.slice(1).join('=').trim());
-      this.context.variables.set(varName, value);
-    } else {
-      await this.evaluateExpression(statement);
-    }
-
-    return end;
-  }
-
-  private async executeBlock(code: string) {
-    const interpreter = new FluxoInterpreter(this.currentFilePath);
-    interpreter.context.variables = new Map(this.context.variables);
-    interpreter.context.functions = new Map(this.context.functions);
-    interpreter.context.modules = new Map(this.context.modules);
-    interpreter.context.output = this.context.output;
-    interpreter.context.shouldReturn = false;
-    interpreter.context.returnValue = undefined;
-
-    let pos = 0;
-    while (pos < code.length && !interpreter.context.shouldReturn) {
-      pos = interpreter.skipWhitespace(code, pos);
-      if (pos >= code.length) break;
-
-      if (code.substring(pos).startsWith('local ')) {
-        pos = await interpreter.parseVariableDeclaration(code, pos);
-      } else if (code.substring(pos).startsWith('wait(')) {
-        pos = await interpreter.parseWaitStatement(code, pos);
-      } else if (code.substring(pos).startsWith('if ')) {
-        pos = await interpreter.parseIfStatement(code, pos);
-      } else if (code.substring(pos).startsWith('while ')) {
-        pos = await interpreter.parseWhileLoop(code, pos);
-      } else if (code.substring(pos).startsWith('for ')) {
-        pos = await interpreter.parseForLoop(code, pos);
-      } else if (code.substring(pos).startsWith('return ')) {
-        pos = await interpreter.parseReturn(code, pos);
-      } else {
-        pos = await interpreter.parseStatement(code, pos);
+    // A stopped run does not get to run more code, not even finally blocks
+    if (statement.finalizer && !(pending && !this.isCatchable(pending))) {
+      // A return/break/continue from the try or catch block waits until the
+      // finally block is done. One issued by the finally block itself wins and
+      // also discards a pending error.
+      const completion = {
+        shouldReturn: this.context.shouldReturn,
+        returnValue: this.context.returnValue,
+        loopSignal: this.context.loopSignal,
+      };
+      this.context.shouldReturn = false;
+      this.context.loopSignal = undefined;
+      await this.executeBlock(statement.finalizer);
+      if (this.context.shouldReturn || this.context.loopSignal) {
+        return;
       }
+      this.context.shouldReturn = completion.shouldReturn;
+      this.context.returnValue = completion.returnValue;
+      this.context.loopSignal = completion.loopSignal;
     }
 
-    this.context.variables = interpreter.context.variables;
-    this.context.output = interpreter.context.output;
-    this.context.shouldReturn = interpreter.context.shouldReturn;
-    this.context.returnValue = interpreter.context.returnValue;
+    if (pending) throw pending;
   }
 
-  private findStatementEnd(code: string, pos: number): number {
-    let end = pos;
-    let depth = 0;
-    let inString = false;
-    let stringChar = '';
+  // Running out of budget and being stopped always end the run
+  private isCatchable(error: FluxoError): boolean {
+    return !(error instanceof FluxoBudgetError || error instanceof FluxoCancelledError);
+  }
 
-    while (end < code.length) {
-      const char = code[end];
+  // `throw value`. Throwing a caught error table rethrows the original error;
+  // any other table with a string `message` field uses it as the message.
+  private createThrow(value: any, node: NodeLocation): FluxoError {
+    const original = this.isTable(value) ? caughtErrors.get(value) : undefined;
+    if (original) return original;
+
+    let message: string;
+    if (typeof value === 'string') {
+      message = value;
+    } else if (this.isTable(value) && typeof value.message === 'string') {
+      message = value.message;
+    } else {
+      message = this.formatValue(value);
+    }
+    const frame = this.currentFrame();
+    return new FluxoThrownError(
+      message,
+      value,
+      { filePath: frame?.filePath ?? this.currentFilePath, line: node.line, column: node.column },
+      this.captureStack(node)
+    );
+  }
 
-      if ((char === '"' || char === "'") && !inString) {
-        inString = true;
-        stringChar = char;
-      } else if (char === stringChar && inString && code[end - 1] !== '\\') {
-        inString = false;
-      } else if (!inString) {
-        if (char === '(' || char === '[' || char === '{') depth++;
-        if (char === ')' || char === ']' || char === '}') depth--;
-        if ((char === '\n' || char === ';') && depth === 0) {
-          return end + 1;
-        }
-      }
+  // The table a catch block receives: { message, file, line, stack, value }.
+  // `value` is what a Fluxo `throw` threw, and null for errors raised by the
+  // interpreter itself.
+  private errorToValue(error: FluxoError): Record<string, any> {
+    const value = {
+      message: error.message,
+      file: error.filePath ?? null,
+      line: error.line ?? null,
+      stack: error.fluxoStack.map(frame => ({
+        name: frame.functionName,
+        file: frame.filePath,
+        line: frame.line ?? null,
+        column: frame.column ?? null,
+      })),
+      value: error instanceof FluxoThrownError ? error.value : null,
+    };
+    caughtErrors.set(value, error);
+    return value;
+  }
 
-      end++;
+  // Run statements in a new scope nested in the current one (or in `environment` if given)
+  private async executeBlock(statements: Statement[], environment = new FluxoEnvironment(this.context.environment)) {
+    const previous = this.context.environment;
+    this.context.environment = environment;
+    try {
+      await this.executeStatements(statements);
+    } finally {
+      this.context.environment = previous;
     }
+  }
 
-    return end;
+  private async executeAssignment(statement: AssignmentStatement) {
+    // Evaluate the container (and index) before the value, left to right
+    const reference = await this.resolveTarget(statement.target);
+    if (statement.operator === '=') {
+      reference.set(await this.evaluateExpression(statement.value));
+      return;
+    }
+    // x += v reads x before evaluating v, and evaluates x's container only once
+    const current = reference.get();
+    const value = await this.evaluateExpression(statement.value);
+    reference.set(await this.combine(statement.operator.slice(0, -1) as BinaryOperator, current, value, statement));
   }
 
-  private async evaluateExpression(expr: string): Promise<any> {
-    expr = expr.trim();
+  private async executeMultipleAssignment(statement: MultipleAssignmentStatement) {
+    const references = [];
+    for (const target of statement.targets) {
+      references.push(await this.resolveTarget(target));
+    }
+    let values: any[] = [];
+    for (const value of statement.values) {
+      values.push(await this.evaluateExpression(value));
+    }
+    if (values.length === 1 && Array.isArray(values[0])) {
+      values = values[0];
+    }
+    references.forEach((reference, i) => reference.set(values[i]));
+  }
 
-    if (expr.endsWith(';')) {
-      expr = expr.slice(0, -1).trim();
+  private async evaluateUpdate(expr: UpdateExpression): Promise<number> {
+    const reference = await this.resolveTarget(expr.argument);
+    const current = reference.get();
+    if (typeof current !== 'number') {
+      const action = expr.operator === '++' ? 'increment' : 'decrement';
+      throw this.runtimeError(`Type Error: Cannot ${action} ${this.typeName(current)}`, expr);
     }
+    const updated = expr.operator === '++' ? current + 1 : current - 1;
+    reference.set(updated);
+    return expr.prefix ? updated : current;
+  }
 
-    if (expr.startsWith('"') && expr.endsWith('"')) {
-      return expr.slice(1, -1);
+  // Evaluate the parts of an assignment target (its container and key) once,
+  // giving back a way to read and write the slot they name
+  private async resolveTarget(target: AssignmentTarget): Promise<{ get: () => any; set: (value: any) => void }> {
+    if (target.type === 'Identifier') {
+      const environment = this.context.environment;
+      return {
+        get: () => {
+          if (!environment.has(target.name)) {
+            throw this.runtimeError(`Undefined variable '${target.name}'`, target);
+          }
+          return environment.get(target.name);
+        },
+        set: (value) => {
+          // Assigning to a name that was never declared creates it at the top level
+          if (!environment.assign(target.name, value)) {
+            this.context.globals.define(target.name, value);
+          }
+        },
+      };
     }
 
-    if (expr.startsWith("'") && expr.endsWith("'")) {
-      return expr.slice(1, -1);
+    const object = await this.evaluateExpression(target.object);
+    if (target.type === 'MemberExpression') {
+      return {
+        get: () => this.readMember(target, object),
+        set: (value) => this.setMember(object, target.property, value, target),
+      };
     }
+    const key = await this.evaluateExpression(target.index);
+    return {
+      get: () => this.evaluateIndex(target, object, key),
+      set: (value) => this.setMember(object, key, value, target),
+    };
+  }
 
-    if (expr === 'true') return true;
-    if (expr === 'false') return false;
-    if (expr === 'null') return null;
-    if (expr === 'undefined') return undefined;
+  private async evaluateExpression(expr: Expression): Promise<any> {
+    this.context.budget.step();
+    switch (expr.type) {
+      case 'NumberLiteral':
+      case 'StringLiteral':
+      case 'BooleanLiteral':
+        return expr.value;
+      case 'TemplateLiteral': {
+        let text = '';
+        for (const part of expr.parts) {
+          text += typeof part === 'string' ? part : await this.toText(await this.evaluateExpression(part));
+        }
+        return text;
+      }
+      case 'NullLiteral':
+        return null;
+      case 'UndefinedLiteral':
+        return undefined;
+      case 'Identifier':
+        if (this.context.environment.has(expr.name)) {
+          return this.context.environment.get(expr.name);
+        }
+        throw this.runtimeError(`Undefined variable '${expr.name}'`, expr);
+      case 'MemberExpression':
+        return this.readMember(expr, await this.evaluateExpression(expr.object));
+      case 'IndexExpression':
+        return this.evaluateIndex(expr, await this.evaluateExpression(expr.object), await this.evaluateExpression(expr.index));
+      case 'FunctionExpression':
+        return this.createFunction(expr);
+      case 'ListLiteral': {
+        const list: any[] = [];
+        for (const element of expr.elements) {
+          list.push(await this.evaluateExpression(element));
+        }
+        return list;
+      }
+      case 'TableLiteral':
+        return await this.evaluateTable(expr);
+      case 'CallExpression':
+        return await this.evaluateFunctionCall(expr);
+      case 'MethodCallExpression':
+        return await this.evaluateMethodCall(expr);
+      case 'UnaryExpression':
+        return this.evaluateUnary(expr, await this.evaluateExpression(expr.argument));
+      case 'BinaryExpression':
+        return await this.combine(expr.operator, await this.evaluateExpression(expr.left), await this.evaluateExpression(expr.right), expr);
+      case 'LogicalExpression':
+        return await this.evaluateLogical(expr);
+      case 'UpdateExpression':
+        return await this.evaluateUpdate(expr);
+      case 'AwaitExpression':
+        return await this.evaluateAwait(expr);
+    }
+  }
 
-    if (!isNaN(Number(expr)) && expr.length > 0 && /^-?\d+\.?\d*$/.test(expr)) {
-      return Number(expr);
+  private async evaluateTable(expr: TableLiteral): Promise<Record<string, any>> {
+    const table: Record<string, any> = {};
+    for (const entry of expr.entries) {
+      const key = typeof entry.key === 'string' ? entry.key : await this.evaluateExpression(entry.key);
+      this.setMember(table, key, await this.evaluateExpression(entry.value), entry);
     }
+    return table;
+  }
 
-    if (expr.includes('(') && expr.includes(')')) {
-      return await this.evaluateFunctionCall(expr);
+  private evaluateUnary(expr: UnaryExpression, argument: any): any {
+    if (expr.operator === 'not') {
+      return !argument;
     }
+    if (expr.operator === '#') {
+      if (typeof argument === 'string' || Array.isArray(argument)) return argument.length;
+      if (this.isFluxoEnum(argument)) return argument.members.length;
+      if (this.isTable(argument)) return Object.keys(argument).length;
+      throw this.runtimeError(`Type Error: Cannot get the length of ${this.typeName(argument)}`, expr);
+    }
+    if (typeof argument !== 'number') {
+      throw this.runtimeError(`Type Error: Cannot negate ${this.typeName(argument)}`, expr);
+    }
+    return -argument;
+  }
 
-    if (expr.includes('==') || expr.includes('!=') || expr.includes('<=') || expr.includes('>=') || 
-        (expr.includes('<') && !expr.includes('<<')) || (expr.includes('>') && !expr.includes('>>'))) {
-      return await this.evaluateComparison(expr);
+  // Lists and strings are indexed from 0; reading past the end gives undefined
+  private evaluateIndex(expr: IndexExpression, object: any, index: any): any {
+    if (object === null || object === undefined) {
+      throw this.runtimeError(`Cannot index ${object}`, expr);
+    }
+    if (Array.isArray(object) || typeof object === 'string') {
+      if (typeof index !== 'number' || !Number.isInteger(index)) {
+        throw this.runtimeError(`Type Error: ${this.typeName(object)} index must be an integer, got ${this.typeName(index)}`, expr);
+      }
+      return index >= 0 && index < object.length ? object[index] : undefined;
     }
+    if (typeof object === 'object' || typeof object === 'function') {
+      if (typeof index !== 'string' && typeof index !== 'number') {
+        throw this.runtimeError(`Type Error: table key must be a string or number, got ${this.typeName(index)}`, expr);
+      }
+      return this.getMember(object, String(index));
+    }
+    throw this.runtimeError(`Type Error: Cannot index ${this.typeName(object)}`, expr);
+  }
 
-    if (expr.includes('+') || expr.includes('-') || expr.includes('*') || expr.includes('/') || expr.includes('%')) {
-      if (this.containsArithmeticOperators(expr)) {
-        return await this.evaluateArithmetic(expr);
+  // Writes into a list element or table field. Lists can grow by one element
+  // at a time (assigning to index #list appends).
+  private setMember(object: any, key: any, value: any, node: NodeLocation) {
+    if (object === null || object === undefined) {
+      throw this.runtimeError(`Cannot set '${key}' on ${object}`, node);
+    }
+    if ((Array.isArray(object) || this.isTable(object)) && Object.isFrozen(object)) {
+      throw this.runtimeError(`Runtime Error: Cannot change a frozen ${this.typeName(object)}`, node);
+    }
+    if (Array.isArray(object)) {
+      if (typeof key !== 'number' || !Number.isInteger(key)) {
+        throw this.runtimeError(`Type Error: list index must be an integer, got ${this.typeName(key)}`, node);
+      }
+      if (key < 0 || key > object.length) {
+        throw this.runtimeError(`List index ${key} out of range (length ${object.length})`, node);
       }
+      object[key] = value;
+      return;
+    }
+    if (this.isTable(object)) {
+      if (typeof key !== 'string' && typeof key !== 'number') {
+        throw this.runtimeError(`Type Error: table key must be a string or number, got ${this.typeName(key)}`, node);
+      }
+      if (key === '__proto__') {
+        throw this.runtimeError(`Cannot use '__proto__' as a table key`, node);
+      }
+      object[String(key)] = value;
+      return;
     }
+    throw this.runtimeError(`Type Error: Cannot set '${key}' on ${this.typeName(object)}`, node);
+  }
 
-    if (this.context.variables.has(expr)) {
-      return this.context.variables.get(expr);
+  private isTable(value: any): boolean {
+    return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+      !this.isFluxoFunction(value) && !this.isFluxoClass(value) && !this.isFluxoEnum(value);
+  }
+
+  private readMember(expr: MemberExpression, object: any): any {
+    if (object === null || object === undefined) {
+      throw this.runtimeError(`Cannot read property '${expr.property}' of ${object}`, expr);
     }
+    return this.getMember(object, expr.property);
+  }
 
-    return expr;
+  // Only a value's own properties are visible to Fluxo code. Anything inherited
+  // (constructor, __proto__, prototype methods) would hand scripts a path back
+  // into the host JavaScript runtime, e.g. "x".constructor.constructor.
+  // Classes and instances add their methods: Class.method is the plain
+  // function (for Parent.new(self, ...)), instance.method is bound to the instance.
+  private getMember(object: any, property: string): any {
+    if (this.isFluxoClass(object)) {
+      return this.findMethod(object, property);
+    }
+    if (this.isFluxoEnum(object)) {
+      return object.members.find(member => member.name === property);
+    }
+    if (Object.prototype.hasOwnProperty.call(object, property)) {
+      return object[property];
+    }
+    const cls = instanceClasses.get(object);
+    const method = cls && this.findMethod(cls, property);
+    return method ? { ...method, self: object } : undefined;
   }
 
-  private containsArithmeticOperators(expr: string): boolean {
-    const tokens = expr.match(/[+\-*/%]/g);
-    if (!tokens) return false;
-    
-    for (let i = 0; i < expr.length; i++) {
-      if (['+', '-', '*', '/', '%'].includes(expr[i])) {
-        if (i > 0 && i < expr.length - 1) {
-          return true;
+  private typeName(value: any): string {
+    if (value === null) return 'null';
+    if (value === undefined) return 'undefined';
+    if (this.isFluxoFunction(value) || typeof value === 'function') return 'function';
+    if (this.isFluxoClass(value)) return 'class';
+    if (this.isFluxoEnum(value)) return 'enum';
+    if (Array.isArray(value)) return 'list';
+    if (typeof value === 'object') return 'table';
+    return typeof value;
+  }
+
+  // How a value reads when converted to text (console.log, string concatenation).
+  // `texts` holds what tostring methods gave for instances, see toText().
+  private formatValue(value: any, seen: Set<any> = new Set(), texts?: Map<object, string>): string {
+    if (typeof value === 'string') return value;
+    if (this.isFluxoFunction(value)) return `function ${value.name}`;
+    if (this.isFluxoClass(value)) return `class ${value.name}`;
+    if (this.isFluxoEnum(value)) return `enum ${value.name}`;
+    if (typeof value === 'function') return 'function';
+    if (value === null || typeof value !== 'object') return String(value);
+    const owner = enumMembers.get(value);
+    if (owner) return `${owner.name}.${value.name}`;
+    const text = texts?.get(value);
+    if (text !== undefined) return text;
+
+    // Nested strings are quoted so [1, "1"] reads unambiguously
+    if (seen.has(value)) return '<cycle>';
+    seen.add(value);
+    const nested = (item: any) => typeof item === 'string' ? JSON.stringify(item) : this.formatValue(item, seen, texts);
+    const cls = instanceClasses.get(value);
+    const formatted = Array.isArray(value)
+      ? `[${value.map(nested).join(', ')}]`
+      : `${cls ? cls.name + ' ' : ''}{${Object.keys(value).map(key => `${key} = ${nested(value[key])}`).join(', ')}}`;
+    seen.delete(value);
+    return formatted;
+  }
+
+  // formatValue() with tostring(self) methods applied, wherever the instances
+  // are nested. The methods are Fluxo code, so they run first and formatValue
+  // then uses their results.
+  private async toText(value: any): Promise<string> {
+    const texts = new Map<object, string>();
+    const visit = async (item: any, seen: Set<any>) => {
+      if (typeof item !== 'object' || item === null || seen.has(item) ||
+          this.isFluxoFunction(item) || this.isFluxoClass(item) || this.isFluxoEnum(item)) {
+        return;
+      }
+      seen.add(item);
+      const cls = instanceClasses.get(item);
+      const hook = cls && this.findMethod(cls, 'tostring');
+      if (hook) {
+        const text = await this.callFunction(hook, [item]);
+        if (typeof text !== 'string') {
+          throw new Error(`Type Error: ${cls.name}.tostring must return a string, got ${this.typeName(text)}`);
         }
+        texts.set(item, text);
+        return;
       }
+      for (const child of Array.isArray(item) ? item : Object.values(item)) {
+        await visit(child, seen);
+      }
+    };
+    await visit(value, new Set());
+    return this.formatValue(value, new Set(), texts);
+  }
+
+  // console.log and message arguments, separated by spaces
+  private async formatArgs(args: any[]): Promise<string> {
+    const texts: string[] = [];
+    for (const arg of args) {
+      texts.push(await this.toText(arg));
+    }
+    return texts.join(' ');
+  }
+
+  // `a and b` / `a or b` give back one of their operands, like Lua, and only
+  // evaluate `b` when `a` does not already decide the result
+  private async evaluateLogical(expr: LogicalExpression): Promise<any> {
+    const left = await this.evaluateExpression(expr.left);
+    if (expr.operator === 'and' ? !left : left) {
+      return left;
     }
-    return false;
+    return await this.evaluateExpression(expr.right);
   }
 
-  private async evaluateFunctionCall(expr: string): Promise<any> {
-    const funcMatch = expr.match(/(\w+(?:\.\w+)?)\s*\(([\s\S]*)\)/);
-    if (funcMatch) {
-      const funcName = funcMatch[1];
-      const argsStr = funcMatch[2];
-      const args = await this.parseArguments(argsStr);
+  // Joining text may run tostring methods, which are Fluxo code, so it is
+  // done here; everything else is evaluateBinary
+  private async combine(operator: BinaryOperator, left: any, right: any, node: NodeLocation): Promise<any> {
+    if (operator === '..' || (operator === '+' && (typeof left === 'string' || typeof right === 'string'))) {
+      return (await this.toText(left)) + (await this.toText(right));
+    }
+    return this.evaluateBinary(operator, left, right, node);
+  }
 
-      if (funcName.includes('.')) {
-        const parts = funcName.split('.');
-        const obj = this.context.variables.get(parts[0]);
-        if (obj && typeof obj[parts[1]] === 'function') {
-          const result = obj[parts[1]](...args);
-          // Handle if the built-in function returns a promise
-          if (result instanceof Promise) {
-            return await result;
-          }
-          return result;
+  // Fluxo operator semantics. There is no implicit coercion apart from `+`,
+  // which concatenates when either side is a string. `node` locates type
+  // errors; it is the binary expression, or the statement for compound assignments.
+  private evaluateBinary(operator: BinaryOperator, left: any, right: any, node: NodeLocation): any {
+    switch (operator) {
+      case '==': return left === right;
+      case '!=': return left !== right;
+      case '..': return this.formatValue(left) + this.formatValue(right);
+      case '+':
+        if (typeof left === 'string' || typeof right === 'string') {
+          return this.formatValue(left) + this.formatValue(right);
         }
-      }
+        break;
+      case '<':
+      case '>':
+      case '<=':
+      case '>=':
+        // Members of the same enum compare by position
+        if (enumMembers.has(left) && enumMembers.get(left) === enumMembers.get(right)) {
+          left = left.value;
+          right = right.value;
+        }
+        if (!((typeof left === 'number' && typeof right === 'number') ||
+              (typeof left === 'string' && typeof right === 'string'))) {
+          throw this.runtimeError(
+            `Type Error: Cannot compare ${this.typeName(left)} with ${this.typeName(right)} using '${operator}'`,
+            node
+          );
+        }
+        switch (operator) {
+          case '<': return left < right;
+          case '>': return left > right;
+          case '<=': return left <= right;
+          case '>=': return left >= right;
+        }
+    }
 
-      if (this.context.functions.has(funcName)) {
-        const func = this.context.functions.get(funcName)!;
-        return await this.executeFunction(func, args);
-      }
+    if (typeof left !== 'number' || typeof right !== 'number') {
+      throw this.runtimeError(
+        `Type Error: Cannot apply '${operator}' to ${this.typeName(left)} and ${this.typeName(right)}`,
+        node
+      );
     }
 
-    return undefined;
+    switch (operator) {
+      case '+': return left + right;
+      case '-': return left - right;
+      case '*': return left * right;
+      case '/':
+      case '%':
+        if (right === 0) {
+          throw this.runtimeError(`Runtime Error: Division by zero`, node);
+        }
+        return operator === '/' ? left / right : left % right;
+    }
   }
 
-  private async parseArguments(argsStr: string): Promise<any[]> {
-    if (!argsStr.trim()) return [];
-    
-    const args: any[] = [];
-    let current = '';
-    let depth = 0;
-    let inString = false;
-    let stringChar = '';
-
-    for (let i = 0; i < argsStr.length; i++) {
-      const char = argsStr[i];
-      
-      if ((char === '"' || char === "'") && !inString) {
-        inString = true;
-        stringChar = char;
-        current += char;
-      } else if (char === stringChar && inString) {
-        inString = false;
-        current += char;
-      } else if (char === '(' && !inString) {
-        depth++;
-        current += char;
-      } else if (char === ')' && !inString) {
-        depth--;
-        current += char;
-      } else if (char === ',' && depth === 0 && !inString) {
-        args.push(await this.evaluateExpression(current.trim()));
-        current = '';
+  private async evaluateFunctionCall(expr: CallExpression): Promise<any> {
+    let callee: any;
+    let thisArg: any;
+    let calleeName: string;
+
+    if (expr.callee.type === 'Identifier') {
+      calleeName = expr.callee.name;
+      if (this.context.environment.has(calleeName)) {
+        callee = this.context.environment.get(calleeName);
       } else {
-        current += char;
+        throw this.runtimeError(`Undefined function '${calleeName}'`, expr);
       }
+    } else if (expr.callee.type === 'MemberExpression') {
+      calleeName = expr.callee.property;
+      thisArg = await this.evaluateExpression(expr.callee.object);
+      if (thisArg === null || thisArg === undefined) {
+        throw this.runtimeError(`Cannot call '${calleeName}' on ${thisArg}`, expr);
+      }
+      callee = this.getMember(thisArg, calleeName);
+    } else {
+      calleeName = 'expression';
+      callee = await this.evaluateExpression(expr.callee);
     }
 
-    if (current.trim()) {
-      args.push(await this.evaluateExpression(current.trim()));
-    }
-
-    return args;
+    const { args, named } = await this.evaluateArguments(expr);
+    return await this.callAt(expr, calleeName, callee, args, named, thisArg);
   }
 
-  private async executeFunction(func: FluxoFunction, args: any[]): Promise<any> {
-    const savedContext = {
-      shouldReturn: this.context.shouldReturn,
-      returnValue: this.context.returnValue,
-    };
+  // obj:method(args) passes obj as the first argument. Methods read from an
+  // instance already carry it, so it is not passed twice.
+  private async evaluateMethodCall(expr: MethodCallExpression): Promise<any> {
+    const object = await this.evaluateExpression(expr.object);
+    if (object === null || object === undefined) {
+      throw this.runtimeError(`Cannot call '${expr.method}' on ${object}`, expr);
+    }
+    const { args, named } = await this.evaluateArguments(expr);
+    const callee = this.bindMethod(object, this.getMember(object, expr.method), args);
+    return await this.callAt(expr, expr.method, callee, args, named);
+  }
 
-    // Save pre-existing values for each parameter (to restore later if they shadowed outer variables)
-    const savedParams = new Map<string, { existed: boolean; value: any }>();
+  // A method call passes the object as the first argument. A Fluxo function
+  // gets it as self, unless it is already bound to that object.
+  private bindMethod(object: any, callee: any, args: any[]): any {
+    if (this.isFluxoFunction(callee) && callee.self === undefined) {
+      return { ...callee, self: object };
+    }
+    if (!this.isFluxoFunction(callee) || callee.self !== object) {
+      args.unshift(object);
+    }
+    return callee;
+  }
 
-    if (func.hasRestParam && func.params.length > 0) {
-      const paramName = func.params[0];
-      savedParams.set(paramName, {
-        existed: this.context.variables.has(paramName),
-        value: this.context.variables.get(paramName),
-      });
-      this.context.variables.set(paramName, args);
-    } else {
-      for (let i = 0; i < func.params.length; i++) {
-        const paramName = func.params[i];
-        savedParams.set(paramName, {
-          existed: this.context.variables.has(paramName),
-          value: this.context.variables.get(paramName),
-        });
-        this.context.variables.set(paramName, args[i]);
-      }
+  // Left to right: positional arguments, then named ones
+  private async evaluateArguments(expr: CallExpression | MethodCallExpression): Promise<{ args: any[]; named: Map<string, any> }> {
+    const args: any[] = [];
+    for (const arg of expr.args) {
+      args.push(await this.evaluateExpression(arg));
+    }
+    const named = new Map<string, any>();
+    for (const arg of expr.namedArgs) {
+      named.set(arg.name, await this.evaluateExpression(arg.value));
     }
+    return { args, named };
+  }
 
-    this.context.shouldReturn = false;
-    this.context.returnValue = undefined;
+  private async callAt(
+    expr: NodeLocation,
+    calleeName: string,
+    callee: any,
+    args: any[],
+    named: Map<string, any>,
+    thisArg?: any
+  ): Promise<any> {
+    // Record the call site so the caller's frame points at this call in stack traces
+    const frame = this.currentFrame();
+    if (frame) {
+      frame.line = expr.line;
+      frame.column = expr.column;
+    }
 
-    await this.executeBlock(func.body);
+    if (!this.isCallable(callee)) {
+      throw this.runtimeError(`'${calleeName}' is not a function`, expr);
+    }
+    if (named.size > 0 && !this.isFluxoFunction(callee) && !this.isFluxoClass(callee)) {
+      throw this.runtimeError(`Type Error: ${calleeName} is built in and does not take named arguments`, expr);
+    }
+    try {
+      return await this.callFunction(callee, args, thisArg, named);
+    } catch (error: any) {
+      throw this.toFluxoError(error, expr);
+    }
+  }
 
-    const result = this.context.returnValue;
+  // Call a Fluxo function or builtin with evaluated arguments. Builtins use
+  // this to call back into Fluxo code (event handlers, callbacks); only calls
+  // written in Fluxo code pass `named`.
+  private async callFunction(callee: any, args: any[], thisArg?: any, named?: Map<string, any>): Promise<any> {
+    if (this.isFluxoFunction(callee)) {
+      if (callee.self !== undefined) {
+        return await this.executeFunction(callee, [callee.self, ...args], named ? { named, implicit: 1 } : null);
+      }
+      return await this.executeFunction(callee, args, named ? { named, implicit: 0 } : null);
+    }
+    if (this.isFluxoClass(callee)) {
+      return await this.instantiate(callee, args, named);
+    }
+    // Built-in functions may return a promise (e.g. wait)
+    return await callee.apply(thisArg, args);
+  }
 
-    // Restore parameter bindings: if parameter shadowed an outer variable, restore it;
-    // otherwise delete the parameter
-    Array.from(savedParams.entries()).forEach(([paramName, saved]) => {
-      if (saved.existed) {
-        this.context.variables.set(paramName, saved.value);
-      } else {
-        this.context.variables.delete(paramName);
+  // Missing arguments are an error unless the parameter has a default. Extra
+  // arguments are only an error in calls written in Fluxo code (`call` is
+  // null when a builtin calls back), since builtins such as list.map pass
+  // more than many callbacks use.
+  private checkArity(func: FluxoFunction, args: any[], call: CallSite | null) {
+    const positional = func.hasRestParam ? func.params.slice(0, -1) : func.params;
+    const implicit = call?.implicit ?? 0;
+    if (call && !func.hasRestParam && args.length > positional.length) {
+      const required = positional.filter(param => !param.defaultValue).length - implicit;
+      const max = positional.length - implicit;
+      const expected = required === max ? `${max}` : `at most ${max}`;
+      throw new Error(
+        `Runtime Error: ${func.name} expects ${expected} argument${max === 1 ? '' : 's'}, got ${args.length - implicit}`
+      );
+    }
+    call?.named.forEach((_, name) => {
+      const index = positional.findIndex(param => param.name === name && !param.pattern);
+      if (index < 0) {
+        throw new Error(`Runtime Error: ${func.name} has no parameter named '${name}'`);
+      }
+      if (index < args.length) {
+        throw new Error(`Runtime Error: Argument '${name}' of ${func.name} is given twice`);
       }
     });
-
-    this.context.shouldReturn = savedContext.shouldReturn;
-    this.context.returnValue = savedContext.returnValue;
-
-    return result;
+    const missing = positional.find((param, i) => i >= args.length && !call?.named.has(param.name) && !param.defaultValue);
+    if (missing) {
+      throw new Error(`Runtime Error: ${func.name} is missing argument '${missing.name}'`);
+    }
   }
 
-  private async evaluateArithmetic(expr: string): Promise<any> {
+  // Defaults are evaluated in the function's parameter scope, so they can use
+  // earlier parameters
+  private async bindArguments(func: FluxoFunction, args: any[], call: CallSite | null, environment: FluxoEnvironment) {
+    const positional = func.hasRestParam ? func.params.slice(0, -1) : func.params;
+    const previous = this.context.environment;
+    this.context.environment = environment;
     try {
-      // Check if expression contains + operator for potential string concatenation
-      if (!expr.includes('+')) {
-        // No + operator, definitely numeric arithmetic only
-        const replaced = expr.replace(/(\w+)/g, (match) => {
-          if (this.context.variables.has(match)) {
-            const val = this.context.variables.get(match);
-            return typeof val === 'number' ? String(val) : match;
-          }
-          return match;
-        });
-        return eval(replaced);
-      }
-      
-      // Expression contains +, tokenize respecting quotes and parentheses
-      const tokens: string[] = [];
-      let current = '';
-      let inString = false;
-      let stringChar = '';
-      let parenDepth = 0;
-      
-      for (let i = 0; i < expr.length; i++) {
-        const char = expr[i];
-        
-        if ((char === '"' || char === "'") && !inString) {
-          inString = true;
-          stringChar = char;
-          current += char;
-        } else if (char === stringChar && inString) {
-          inString = false;
-          current += char;
-        } else if (char === '(' && !inString) {
-          parenDepth++;
-          current += char;
-        } else if (char === ')' && !inString) {
-          parenDepth--;
-          current += char;
-        } else if (char === '+' && !inString && parenDepth === 0) {
-          if (current.trim()) {
-            tokens.push(current.trim());
-          }
-          current = '';
+      for (let i = 0; i < positional.length; i++) {
+        const param = positional[i];
+        let value: any;
+        if (i < args.length) {
+          value = args[i];
+        } else if (call?.named.has(param.name)) {
+          value = call.named.get(param.name);
         } else {
-          current += char;
+          value = await this.evaluateExpression(param.defaultValue!);
         }
-      }
-      
-      if (current.trim()) {
-        tokens.push(current.trim());
-      }
-      
-      // If we didn't find any top-level + to split on, fall back to numeric
-      if (tokens.length <= 1) {
-        const replaced = expr.replace(/(\w+)/g, (match) => {
-          if (this.context.variables.has(match)) {
-            const val = this.context.variables.get(match);
-            return typeof val === 'number' ? String(val) : match;
-          }
-          return match;
-        });
-        return eval(replaced);
-      }
-      
-      // Check if any token is a string
-      let hasStringOperand = false;
-      const operands: any[] = [];
-      
-      for (const token of tokens) {
-        // Check if it's a string literal
-        if ((token.startsWith('"') && token.endsWith('"')) || (token.startsWith("'") && token.endsWith("'"))) {
-          hasStringOperand = true;
-          operands.push(token.slice(1, -1)); // Remove quotes
-        } else if (this.context.variables.has(token)) {
-          // It's a variable
-          const val = this.context.variables.get(token);
-          if (typeof val === 'string') {
-            hasStringOperand = true;
-          }
-          operands.push(val);
-        } else if (!isNaN(Number(token))) {
-          // It's a number literal
-          operands.push(Number(token));
+        if (param.pattern) {
+          await this.destructure(param.pattern, value, environment, false, param);
         } else {
-          // Try to evaluate as sub-expression
-          const subResult = await this.evaluateExpression(token);
-          if (typeof subResult === 'string') {
-            hasStringOperand = true;
-          }
-          operands.push(subResult);
+          environment.define(param.name, value);
         }
       }
-      
-      // If any operand is a string, do string concatenation
-      if (hasStringOperand) {
-        return operands.map(op => String(op)).join('');
-      }
-      
-      // Otherwise, numeric arithmetic with +
-      const replaced = expr.replace(/(\w+)/g, (match) => {
-        if (this.context.variables.has(match)) {
-          const val = this.context.variables.get(match);
-          return typeof val === 'number' ? String(val) : match;
-        }
-        return match;
-      });
-
-      return eval(replaced);
-    } catch {
-      return 0;
+    } finally {
+      this.context.environment = previous;
+    }
+    if (func.hasRestParam) {
+      environment.define(func.params[func.params.length - 1].name, args.slice(positional.length));
     }
   }
 
-  private evaluateComparison(expr: string): boolean {
-    try {
-      const replaced = expr.replace(/(\w+)/g, (match) => {
-        if (this.context.variables.has(match)) {
-          const val = this.context.variables.get(match);
-          if (typeof val === 'number') {
-            return String(val);
-          } else if (typeof val === 'boolean') {
-            return String(val);  // 'true' or 'false' as unquoted strings
-          } else if (val === null) {
-            return 'null';
-          } else if (val === undefined) {
-            return 'undefined';
-          } else {
-            return `"${val}"`;  // Only strings get quotes
-          }
-        }
-        return match;
-      });
+  private async executeFunction(func: FluxoFunction, args: any[], call: CallSite | null = null): Promise<any> {
+    this.context.budget.enterCall(this.context.callStack.length + 1);
+    this.checkArity(func, args, call);
+
+    const savedContext = {
+      shouldReturn: this.context.shouldReturn,
+      returnValue: this.context.returnValue,
+    };
 
-      return eval(replaced);
-    } catch {
-      return false;
+    // Parameters live in a fresh scope whose parent is the function's closure,
+    // not the caller's scope
+    const environment = new FluxoEnvironment(func.closure);
+
+    this.context.shouldReturn = false;
+    this.context.returnValue = undefined;
+
+    // The body resolves imports and nested function declarations relative to
+    // the file it was written in, which may not be the caller's file
+    const callerFilePath = this.currentFilePath;
+    this.currentFilePath = func.filePath;
+    this.context.callStack.push({ functionName: func.name, filePath: func.filePath });
+    try {
+      await this.bindArguments(func, args, call, environment);
+      await this.executeBlock(func.body, environment);
+      return this.context.returnValue;
+    } finally {
+      this.context.callStack.pop();
+      this.currentFilePath = callerFilePath;
+      this.context.shouldReturn = savedContext.shouldReturn;
+      this.context.returnValue = savedContext.returnValue;
     }
   }
 }
@@ -0,0 +1,308 @@
+// Fluxo lexer
+// Turns source text into a flat token stream. Comments and whitespace are
+// dropped here so the parser never has to think about them.
+
+import { FluxoError } from "./fluxo-errors";
+
+export type TokenType = 'identifier' | 'keyword' | 'number' | 'string' | 'template' | 'operator' | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  line: number;
+  column: number;
+  // Template tokens only: literal text, and the tokens of each ${...}
+  // expression (ending in an eof token)
+  parts?: (string | Token[])[];
+}
+
+export const KEYWORDS = new Set([
+  'module', 'export', 'import', 'from', 'function', 'return',
+  'if', 'elseif', 'else', 'while', 'for', 'in', 'break', 'continue', 'local',
+  'try', 'catch', 'finally', 'throw', 'and', 'or', 'not', 'await',
+  'true', 'false', 'null', 'undefined',
+]);
+
+// Longest operators first so "==" is never read as two "=" tokens
+const OPERATORS = [
+  '...', '..=',
+  '==', '!=', '<=', '>=', '&&', '||', '..', '=>',
+  '+=', '-=', '*=', '/=', '%=', '++', '--',
+  '+', '-', '*', '/', '%', '<', '>', '=', '!',
+  '(', ')', '{', '}', '[', ']', ',', ';', '.', ':', '#', '|', '?',
+];
+
+export class FluxoLexer {
+  private pos = 0;
+  private line = 1;
+  private column = 1;
+  private tokens: Token[] = [];
+
+  constructor(private source: string, private filePath?: string) {}
+
+  tokenize(): Token[] {
+    while (this.pos < this.source.length) {
+      this.readToken();
+    }
+
+    this.tokens.push({ type: 'eof', value: '', line: this.line, column: this.column });
+    return this.tokens;
+  }
+
+  // Reads the next token, or skips whitespace or a comment
+  private readToken() {
+    const char = this.source[this.pos];
+
+    if (/\s/.test(char)) {
+      this.advance();
+    } else if (this.source.startsWith('//', this.pos)) {
+      this.skipLineComment();
+    } else if (this.source.startsWith('/*', this.pos)) {
+      this.skipBlockComment();
+    } else if (char === '"' || char === "'") {
+      this.readString(char);
+    } else if (char === '`') {
+      this.readTemplate();
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(this.peek(1)))) {
+      this.readNumber();
+    } else if (/[A-Za-z_]/.test(char)) {
+      this.readIdentifier();
+    } else {
+      this.readOperator();
+    }
+  }
+
+  private peek(offset = 0): string {
+    return this.source[this.pos + offset] ?? '';
+  }
+
+  private advance(): string {
+    const char = this.source[this.pos++];
+    if (char === '\n') {
+      this.line++;
+      this.column = 1;
+    } else {
+      this.column++;
+    }
+    return char;
+  }
+
+  private error(message: string, line = this.line, column = this.column): never {
+    throw new FluxoError(`Syntax Error: ${message}`, { filePath: this.filePath, line, column });
+  }
+
+  private skipLineComment() {
+    while (this.pos < this.source.length && this.peek() !== '\n') {
+      this.advance();
+    }
+  }
+
+  private skipBlockComment() {
+    const startLine = this.line;
+    const startColumn = this.column;
+    this.advance();
+    this.advance();
+    while (this.pos < this.source.length && !this.source.startsWith('*/', this.pos)) {
+      this.advance();
+    }
+    if (this.pos >= this.source.length) {
+      this.error('Unterminated block comment', startLine, startColumn);
+    }
+    this.advance();
+    this.advance();
+  }
+
+  // "text" or 'text' on one line, or """text""" / '''text''' spanning lines.
+  // A line break right after the opening triple quote is not part of the string.
+  private readString(quote: string) {
+    const line = this.line;
+    const column = this.column;
+    const multiline = this.source.startsWith(quote.repeat(3), this.pos);
+    const delimiter = multiline ? quote.repeat(3) : quote;
+    this.skip(delimiter.length);
+    if (multiline && this.peek() === '\r' && this.peek(1) === '\n') this.advance();
+    if (multiline && this.peek() === '\n') this.advance();
+
+    let value = '';
+    while (!this.source.startsWith(delimiter, this.pos)) {
+      if (this.pos >= this.source.length || (!multiline && this.peek() === '\n')) {
+        this.error('Unterminated string', line, column);
+      }
+      value += this.peek() === '\\' ? this.readEscape() : this.advance();
+    }
+    this.skip(delimiter.length);
+
+    this.tokens.push({ type: 'string', value, line, column });
+  }
+
+  // `Hello ${name}!` - may span lines. Each ${...} is lexed in place into its
+  // own token list, which the parser turns into an expression.
+  private readTemplate() {
+    const line = this.line;
+    const column = this.column;
+    this.advance();
+
+    const parts: (string | Token[])[] = [];
+    let text = '';
+    while (this.peek() !== '`') {
+      if (this.pos >= this.source.length) {
+        this.error('Unterminated template string', line, column);
+      }
+      if (this.peek() === '\\') {
+        text += this.readEscape();
+      } else if (this.source.startsWith('${', this.pos)) {
+        if (text) parts.push(text);
+        text = '';
+        parts.push(this.readTemplateExpression());
+      } else {
+        text += this.advance();
+      }
+    }
+    this.advance();
+    if (text || parts.length === 0) parts.push(text);
+
+    this.tokens.push({ type: 'template', value: '', parts, line, column });
+  }
+
+  private readTemplateExpression(): Token[] {
+    const line = this.line;
+    const column = this.column;
+    this.skip(2);
+
+    const outer = this.tokens;
+    this.tokens = [];
+    // Braces opened inside the expression (table literals) must close before
+    // the '}' that ends it
+    let depth = 0;
+    while (true) {
+      if (this.pos >= this.source.length) {
+        this.error(`Unterminated '\${' in template string`, line, column);
+      }
+      const count = this.tokens.length;
+      this.readToken();
+      const token = this.tokens[this.tokens.length - 1];
+      if (this.tokens.length === count || token.type !== 'operator') continue;
+      if (token.value === '{') {
+        depth++;
+      } else if (token.value === '}') {
+        if (depth === 0) break;
+        depth--;
+      }
+    }
+
+    const closing = this.tokens.pop()!;
+    const tokens = this.tokens;
+    tokens.push({ type: 'eof', value: '', line: closing.line, column: closing.column });
+    this.tokens = outer;
+    return tokens;
+  }
+
+  // Reads one backslash escape and returns the text it stands for
+  private readEscape(): string {
+    const line = this.line;
+    const column = this.column;
+    this.advance();
+    if (this.pos >= this.source.length) {
+      this.error('Unterminated string', line, column);
+    }
+
+    const char = this.advance();
+    switch (char) {
+      case 'n': return '\n';
+      case 't': return '\t';
+      case 'r': return '\r';
+      case '0': return '\0';
+      case '\\':
+      case '"':
+      case "'":
+      case '`':
+      case '$':
+        return char;
+      case 'x':
+        return String.fromCharCode(this.readHexDigits(2, line, column));
+      case 'u': {
+        if (this.peek() !== '{') {
+          return String.fromCharCode(this.readHexDigits(4, line, column));
+        }
+        // \u{1F600}: any code point, 1 to 6 hex digits
+        this.advance();
+        let hex = '';
+        while (/[0-9a-fA-F]/.test(this.peek())) {
+          hex += this.advance();
+        }
+        const codePoint = parseInt(hex, 16);
+        if (this.peek() !== '}' || hex.length === 0 || hex.length > 6 || codePoint > 0x10ffff) {
+          this.error('Invalid unicode escape; expected \\u{...} with a code point up to 10FFFF', line, column);
+        }
+        this.advance();
+        return String.fromCodePoint(codePoint);
+      }
+      default:
+        this.error(`Unknown escape sequence '\\${char}'`, line, column);
+    }
+  }
+
+  private readHexDigits(count: number, line: number, column: number): number {
+    let hex = '';
+    for (let i = 0; i < count; i++) {
+      if (!/[0-9a-fA-F]/.test(this.peek())) {
+        this.error(`Invalid escape sequence; expected ${count} hex digits`, line, column);
+      }
+      hex += this.advance();
+    }
+    return parseInt(hex, 16);
+  }
+
+  private skip(count: number) {
+    for (let i = 0; i < count; i++) this.advance();
+  }
+
+  private readNumber() {
+    const line = this.line;
+    const column = this.column;
+    let value = '';
+
+    while (/[0-9]/.test(this.peek())) {
+      value += this.advance();
+    }
+    if (this.peek() === '.' && /[0-9]/.test(this.peek(1))) {
+      value += this.advance();
+      while (/[0-9]/.test(this.peek())) {
+        value += this.advance();
+      }
+    }
+
+    this.tokens.push({ type: 'number', value, line, column });
+  }
+
+  private readIdentifier() {
+    const line = this.line;
+    const column = this.column;
+    let value = '';
+
+    while (/[A-Za-z0-9_]/.test(this.peek())) {
+      value += this.advance();
+    }
+
+    this.tokens.push({ type: KEYWORDS.has(value) ? 'keyword' : 'identifier', value, line, column });
+  }
+
+  private readOperator() {
+    const line = this.line;
+    const column = this.column;
+
+    for (const op of OPERATORS) {
+      if (this.source.startsWith(op, this.pos)) {
+        for (let i = 0; i < op.length; i++) this.advance();
+        this.tokens.push({ type: 'operator', value: op, line, column });
+        return;
+      }
+    }
+
+    this.error(`Unexpected character '${this.peek()}'`);
+  }
+}
+
+export function tokenize(source: string, filePath?: string): Token[] {
+  return new FluxoLexer(source, filePath).tokenize();
+}
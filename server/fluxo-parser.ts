@@ -0,0 +1,1210 @@
+// Fluxo parser
+// Recursive-descent parser that turns the lexer's token stream into the AST
+// defined in fluxo-ast.ts. Statements may be separated by newlines or ';'.
+
+import { type Token, tokenize } from "./fluxo-lexer";
+import { FluxoError } from "./fluxo-errors";
+import type {
+  Program,
+  Statement,
+  Expression,
+  Identifier,
+  StringLiteral,
+  TemplateLiteral,
+  ModuleDeclaration,
+  ModuleFolderImport,
+  FunctionDeclaration,
+  FunctionExpression,
+  ClassDeclaration,
+  EnumDeclaration,
+  MemberExpression,
+  Parameter,
+  TypeAnnotation,
+  ExportList,
+  LocalDeclaration,
+  DestructuringDeclaration,
+  IfStatement,
+  IfClause,
+  MatchStatement,
+  MatchCase,
+  Pattern,
+  ListPattern,
+  TablePattern,
+  TablePatternEntry,
+  WhileStatement,
+  ForStatement,
+  ForInStatement,
+  ForClauseStatement,
+  ReturnStatement,
+  BreakStatement,
+  ContinueStatement,
+  TryStatement,
+  ThrowStatement,
+  AssignmentStatement,
+  AssignmentOperator,
+  AssignmentTarget,
+  MultipleAssignmentStatement,
+  WaitStatement,
+  ExpressionStatement,
+  BinaryOperator,
+  LogicalOperator,
+  UnaryOperator,
+  TableEntry,
+  NamedArgument,
+} from "./fluxo-ast";
+
+const ASSIGNMENT_OPERATORS: AssignmentOperator[] = ['+=', '-=', '*=', '/=', '%=', '..='];
+
+export class FluxoParser {
+  private pos = 0;
+  // Labels of the loops enclosing the current statement, innermost last.
+  // Unlabelled loops are recorded as undefined. Reset inside function bodies.
+  private loopLabels: (string | undefined)[] = [];
+  // Set while parsing a match guard, where `=>` ends the guard rather than
+  // starting an arrow function
+  private inGuard = false;
+
+  constructor(private tokens: Token[], private filePath?: string) {}
+
+  parseProgram(): Program {
+    const body: Statement[] = [];
+    while (!this.isAtEnd()) {
+      body.push(this.parseStatement());
+    }
+    return { type: 'Program', body };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Token helpers
+  // ---------------------------------------------------------------------------
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private previous(): Token {
+    return this.tokens[this.pos - 1];
+  }
+
+  private isAtEnd(): boolean {
+    return this.peek().type === 'eof';
+  }
+
+  private advance(): Token {
+    const token = this.peek();
+    if (!this.isAtEnd()) this.pos++;
+    return token;
+  }
+
+  private check(value: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return (token.type === 'operator' || token.type === 'keyword') && token.value === value;
+  }
+
+  private checkIdentifier(name?: string, offset = 0): boolean {
+    const token = this.peek(offset);
+    return token.type === 'identifier' && (name === undefined || token.value === name);
+  }
+
+  // Property and method names may be keywords, as table keys can be: t.from, t:in()
+  private checkPropertyName(offset = 0): boolean {
+    const type = this.peek(offset).type;
+    return type === 'identifier' || type === 'keyword';
+  }
+
+  private match(value: string): boolean {
+    if (this.check(value)) {
+      this.advance();
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string): Token {
+    if (this.check(value)) return this.advance();
+    this.error(`Expected '${value}' but found ${this.describe(this.peek())}`);
+  }
+
+  private expectIdentifier(what: string): Token {
+    if (this.checkIdentifier()) return this.advance();
+    this.error(`Expected ${what} but found ${this.describe(this.peek())}`);
+  }
+
+  private expectPropertyName(): Token {
+    if (this.checkPropertyName()) return this.advance();
+    this.error(`Expected a property name but found ${this.describe(this.peek())}`);
+  }
+
+  private expectString(what: string): Token {
+    if (this.peek().type === 'string') return this.advance();
+    this.error(`Expected ${what} but found ${this.describe(this.peek())}`);
+  }
+
+  private describe(token: Token): string {
+    if (token.type === 'eof') return 'end of file';
+    if (token.type === 'string') return `string "${token.value}"`;
+    return `'${token.value}'`;
+  }
+
+  private error(message: string, token: Token = this.peek()): never {
+    throw new FluxoError(`Syntax Error: ${message}`, { filePath: this.filePath, line: token.line, column: token.column });
+  }
+
+  // True when the next token starts on the same line as the one just consumed.
+  // Used so that "foo\n(bar)" is read as two statements instead of a call.
+  private onSameLine(): boolean {
+    const prev = this.previous();
+    return !prev || this.peek().line === prev.line;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Statements
+  // ---------------------------------------------------------------------------
+
+  private parseStatement(): Statement {
+    const token = this.peek();
+    let statement: Statement;
+
+    if (token.type === 'keyword') {
+      switch (token.value) {
+        case 'module':
+          return this.parseModule();
+        case 'import':
+          statement = this.parseImport();
+          break;
+        case 'export':
+          return this.parseExport();
+        case 'function':
+          // function (...) { } on its own is an expression, not a declaration
+          if (this.check('(', 1)) {
+            statement = this.parseSimpleStatement();
+            break;
+          }
+          return this.parseFunctionDeclaration(false);
+        case 'local':
+          statement = this.parseLocal();
+          break;
+        case 'if':
+          return this.parseIf();
+        case 'while':
+          return this.parseWhile();
+        case 'for':
+          return this.parseFor();
+        case 'try':
+          return this.parseTry();
+        case 'throw':
+          statement = this.parseThrow();
+          break;
+        case 'return':
+          statement = this.parseReturn();
+          break;
+        case 'break':
+        case 'continue':
+          statement = this.parseLoopControl();
+          break;
+        default:
+          statement = this.parseSimpleStatement();
+      }
+    } else if (this.checkIdentifier('class') && this.checkIdentifier(undefined, 1)) {
+      // `class` is only a keyword at the start of a declaration, so fields
+      // such as config.class keep working
+      return this.parseClassDeclaration(false);
+    } else if (this.checkIdentifier('enum') && this.checkIdentifier(undefined, 1) && this.check('{', 2)) {
+      return this.parseEnumDeclaration();
+    } else if (this.checkIdentifier('const') && (this.checkIdentifier(undefined, 1) || this.check('{', 1) || this.check('[', 1))) {
+      statement = this.parseLocal();
+    } else if (this.checkIdentifier('match') && this.isMatchStatement()) {
+      return this.parseMatch();
+    } else if (this.checkIdentifier() && this.check(':', 1) && (this.check('while', 2) || this.check('for', 2))) {
+      // label: while (...) { }
+      this.advance();
+      this.advance();
+      return this.check('while') ? this.parseWhile(token) : this.parseFor(token);
+    } else if (this.checkIdentifier('require') && this.check('(', 1) && this.peek(2).type === 'string') {
+      this.advance();
+      this.expect('(');
+      const source = this.advance().value;
+      this.expect(')');
+      statement = { type: 'RequireStatement', source, line: token.line, column: token.column };
+    } else {
+      statement = this.parseSimpleStatement();
+    }
+
+    this.match(';');
+    return statement;
+  }
+
+  private parseBlock(): Statement[] {
+    this.expect('{');
+    const body: Statement[] = [];
+    while (!this.check('}')) {
+      if (this.isAtEnd()) {
+        this.error(`Expected '}' but found end of file`);
+      }
+      body.push(this.parseStatement());
+    }
+    this.expect('}');
+    return body;
+  }
+
+  private parseModule(): ModuleDeclaration | ModuleFolderImport {
+    const start = this.expect('module');
+
+    // module folder "path" as alias
+    if (this.checkIdentifier('folder') && this.peek(1).type === 'string') {
+      this.advance();
+      const folderPath = this.advance().value;
+      if (!this.checkIdentifier('as')) {
+        this.error(`Expected 'as' but found ${this.describe(this.peek())}`);
+      }
+      this.advance();
+      const alias = this.expectIdentifier('an alias name').value;
+      this.match(';');
+      return { type: 'ModuleFolderImport', folderPath, alias, line: start.line, column: start.column };
+    }
+
+    const name = this.expectIdentifier('a module name').value;
+    const body = this.parseBlock();
+    return { type: 'ModuleDeclaration', name, body, line: start.line, column: start.column };
+  }
+
+  private parseImport(): Statement {
+    const start = this.expect('import');
+
+    // import from "path" { a, b }
+    if (this.match('from')) {
+      const source = this.expectString('a module path').value;
+      const names = this.parseNameList();
+      return { type: 'ImportFromStatement', source, names, line: start.line, column: start.column };
+    }
+
+    // import { a, b } from "path"
+    if (this.check('{')) {
+      const names = this.parseNameList();
+      this.expect('from');
+      const source = this.expectString('a module path').value;
+      return { type: 'ImportFromStatement', source, names, line: start.line, column: start.column };
+    }
+
+    // import("path")
+    if (this.check('(')) {
+      this.advance();
+      const source = this.expectString('a module path').value;
+      this.expect(')');
+      return { type: 'RequireStatement', source, line: start.line, column: start.column };
+    }
+
+    // import alias "path"  /  import alias pathVariable
+    const identifier = this.expectIdentifier('an import name').value;
+    const sourceToken = this.peek();
+    let source: StringLiteral | Identifier;
+    if (sourceToken.type === 'string') {
+      this.advance();
+      source = { type: 'StringLiteral', value: sourceToken.value, line: sourceToken.line, column: sourceToken.column };
+    } else if (sourceToken.type === 'identifier') {
+      this.advance();
+      source = { type: 'Identifier', name: sourceToken.value, line: sourceToken.line, column: sourceToken.column };
+    } else {
+      this.error(`Expected a module path but found ${this.describe(sourceToken)}`);
+    }
+    return { type: 'ImportAllStatement', identifier, source, line: start.line, column: start.column };
+  }
+
+  private parseNameList(): string[] {
+    this.expect('{');
+    const names: string[] = [];
+    while (!this.check('}')) {
+      names.push(this.expectIdentifier('a name').value);
+      if (!this.match(',')) break;
+    }
+    this.expect('}');
+    return names;
+  }
+
+  private parseExport(): FunctionDeclaration | ClassDeclaration | ExportList {
+    const start = this.peek();
+
+    if (this.check('function', 1)) {
+      this.advance();
+      return this.parseFunctionDeclaration(true, start);
+    }
+
+    if (this.checkIdentifier('class', 1)) {
+      this.advance();
+      return this.parseClassDeclaration(true, start);
+    }
+
+    this.advance();
+    if (!this.check('{')) {
+      this.error(`Expected 'function', 'class' or '{' after 'export' but found ${this.describe(this.peek())}`);
+    }
+    const names = this.parseNameList();
+    this.match(';');
+    return { type: 'ExportList', names, line: start.line, column: start.column };
+  }
+
+  private parseFunctionDeclaration(exported: boolean, start: Token = this.peek()): FunctionDeclaration {
+    this.expect('function');
+    const name = this.expectIdentifier('a function name').value;
+    const { params, hasRestParam } = this.parseParameterList();
+    const returnType = this.match(':') ? this.parseTypeAnnotation() : undefined;
+    const body = this.parseFunctionBody();
+    return { type: 'FunctionDeclaration', name, params, hasRestParam, returnType, body, exported, line: start.line, column: start.column };
+  }
+
+  private parseClassDeclaration(exported: boolean, start: Token = this.peek()): ClassDeclaration {
+    this.advance();
+    const name = this.expectIdentifier('a class name').value;
+
+    let parent: Identifier | MemberExpression | undefined;
+    if (this.checkIdentifier('extends')) {
+      this.advance();
+      const token = this.expectIdentifier('a parent class name');
+      parent = { type: 'Identifier', name: token.value, line: token.line, column: token.column };
+      while (this.match('.')) {
+        const property = this.expectIdentifier('a class name');
+        parent = { type: 'MemberExpression', object: parent, property: property.value, line: property.line, column: property.column };
+      }
+    }
+
+    // The body holds methods only; fields are set on self in new()
+    this.expect('{');
+    const methods: FunctionDeclaration[] = [];
+    while (!this.check('}')) {
+      const methodStart = this.peek();
+      if (!this.check('function')) {
+        this.error(`Expected a method in class ${name} but found ${this.describe(methodStart)}`);
+      }
+      const method = this.parseFunctionDeclaration(false);
+      if (methods.some(m => m.name === method.name)) {
+        this.error(`Method '${method.name}' is already defined in class ${name}`, methodStart);
+      }
+      methods.push(method);
+      this.match(';');
+    }
+    this.expect('}');
+    return { type: 'ClassDeclaration', name, parent, methods, exported, line: start.line, column: start.column };
+  }
+
+  private parseEnumDeclaration(): EnumDeclaration {
+    const start = this.advance();
+    const name = this.expectIdentifier('an enum name').value;
+    this.expect('{');
+    const members: string[] = [];
+    while (!this.check('}')) {
+      const member = this.expectIdentifier('an enum member');
+      if (members.includes(member.value)) {
+        this.error(`Member '${member.value}' is already defined in enum ${name}`, member);
+      }
+      members.push(member.value);
+      if (!this.match(',') && !this.match(';')) break;
+    }
+    this.expect('}');
+    return { type: 'EnumDeclaration', name, members, line: start.line, column: start.column };
+  }
+
+  // (a, b = 2, ...rest): parameters with defaults come after those without,
+  // and a rest parameter comes last
+  private parseParameterList(): { params: Parameter[]; hasRestParam: boolean } {
+    this.expect('(');
+    const params: Parameter[] = [];
+    let hasRestParam = false;
+    while (!this.check(')')) {
+      if (this.match('...')) {
+        const restStart = this.peek();
+        const rest = this.parseParameter();
+        if (rest.defaultValue) {
+          this.error(`Rest parameter '${rest.name}' cannot have a default value`, restStart);
+        }
+        params.push(rest);
+        hasRestParam = true;
+        if (this.check(',')) {
+          this.error(`Rest parameter must be the last parameter`);
+        }
+        break;
+      }
+      const paramStart = this.peek();
+      const param = this.parseParameter();
+      if (!param.defaultValue && params.some(other => other.defaultValue)) {
+        this.error(`Parameter '${param.name}' needs a default value because an earlier parameter has one`, paramStart);
+      }
+      params.push(param);
+      if (!this.match(',')) break;
+    }
+    this.expect(')');
+    return { params, hasRestParam };
+  }
+
+  private parseParameter(): Parameter {
+    const start = this.peek();
+    if (this.check('{') || this.check('[')) {
+      const pattern = this.check('{') ? this.parseTablePattern() : this.parseListPattern();
+      const typeAnnotation = this.match(':') ? this.parseTypeAnnotation() : undefined;
+      const name = pattern.type === 'TablePattern' ? '{...}' : '[...]';
+      const defaultValue = this.match('=') ? this.parseExpression() : undefined;
+      return { name, pattern, typeAnnotation, defaultValue, line: start.line, column: start.column };
+    }
+    const name = this.expectIdentifier('a parameter name');
+    const typeAnnotation = this.match(':') ? this.parseTypeAnnotation() : undefined;
+    const defaultValue = this.match('=') ? this.parseExpression() : undefined;
+    return { name: name.value, typeAnnotation, defaultValue, line: name.line, column: name.column };
+  }
+
+  // The type after `name:` or after a function's parameter list. `function`
+  // and `null` are keywords, the other type names are identifiers.
+  private parseTypeAnnotation(): TypeAnnotation {
+    const start = this.peek();
+    const types: string[] = [];
+    do {
+      const token = this.peek();
+      if (!this.checkIdentifier() && !this.check('function') && !this.check('null')) {
+        this.error(`Expected a type but found ${this.describe(token)}`);
+      }
+      types.push(this.advance().value);
+    } while (this.match('|'));
+    if (this.match('?')) {
+      types.push('null');
+    }
+    return { types, line: start.line, column: start.column };
+  }
+
+  private parseFunctionBody(): Statement[] {
+    // break/continue cannot reach loops outside the function
+    const enclosingLoops = this.loopLabels;
+    this.loopLabels = [];
+    const body = this.parseBlock();
+    this.loopLabels = enclosingLoops;
+    return body;
+  }
+
+  // local name = value / const NAME = value / local { a, b } = value
+  private parseLocal(): LocalDeclaration | DestructuringDeclaration {
+    const start = this.advance();
+    const constant = start.value === 'const';
+    if (this.check('{') || this.check('[')) {
+      const pattern = this.check('{') ? this.parseTablePattern() : this.parseListPattern();
+      this.expect('=');
+      const init = this.parseExpression();
+      return { type: 'DestructuringDeclaration', pattern, constant, init, line: start.line, column: start.column };
+    }
+    const name = this.expectIdentifier('a variable name').value;
+    const typeAnnotation = this.match(':') ? this.parseTypeAnnotation() : undefined;
+    if (constant && !this.check('=')) {
+      this.error(`Constant '${name}' must be given a value`);
+    }
+    const init = this.match('=') ? this.parseExpression() : undefined;
+    if (init?.type === 'FunctionExpression' && !init.name) {
+      init.name = name;
+    }
+    return { type: 'LocalDeclaration', name, constant, typeAnnotation, init, line: start.line, column: start.column };
+  }
+
+  private parseIf(): IfStatement {
+    const start = this.expect('if');
+    const clauses: IfClause[] = [];
+
+    const condition = this.parseCondition();
+    clauses.push({ condition, body: this.parseBlock(), line: start.line, column: start.column });
+
+    while (this.check('elseif')) {
+      const clauseStart = this.advance();
+      const clauseCondition = this.parseCondition();
+      clauses.push({ condition: clauseCondition, body: this.parseBlock(), line: clauseStart.line, column: clauseStart.column });
+    }
+
+    let alternate: Statement[] | undefined;
+    if (this.match('else')) {
+      alternate = this.parseBlock();
+    }
+
+    return { type: 'IfStatement', clauses, alternate, line: start.line, column: start.column };
+  }
+
+  // `match` is only a keyword when a value and a block of cases follow it,
+  // so variables named match keep working
+  private isMatchStatement(): boolean {
+    let first = 1;
+    if (this.check('{', 1)) {
+      // The value is a table literal: match { kind = "x" } { ... }
+      let braces = 0;
+      do {
+        if (this.peek(first).type === 'eof') return false;
+        if (this.check('{', first)) braces++;
+        if (this.check('}', first)) braces--;
+        first++;
+      } while (braces > 0);
+    }
+    let depth = 0;
+    for (let offset = first; this.peek(offset).type !== 'eof'; offset++) {
+      const token = this.peek(offset);
+      if (token.type !== 'operator') continue;
+      if (token.value === '(' || token.value === '[') {
+        depth++;
+      } else if (token.value === ')' || token.value === ']') {
+        if (--depth < 0) return false;
+      } else if (depth === 0 && token.value === '{') {
+        return offset > 1 && (this.checkIdentifier('case', offset + 1) || this.check('}', offset + 1));
+      } else if (depth === 0 && (token.value === '}' || token.value === '=')) {
+        return false;
+      }
+    }
+    return false;
+  }
+
+  // match value { case 1, 2 => ... case { kind = "x" } if cond => { ... } case _ => ... }
+  // A case body is a block or a single statement; cases may be separated by ','
+  private parseMatch(): MatchStatement {
+    const start = this.advance();
+    const subject = this.parseCondition();
+    this.expect('{');
+    const cases: MatchCase[] = [];
+    while (!this.check('}')) {
+      const caseToken = this.peek();
+      if (!this.checkIdentifier('case')) {
+        this.error(`Expected 'case' but found ${this.describe(caseToken)}`);
+      }
+      this.advance();
+      const patterns = [this.parsePattern()];
+      while (this.match(',')) {
+        patterns.push(this.parsePattern());
+      }
+      let guard: Expression | undefined;
+      if (this.match('if')) {
+        this.inGuard = true;
+        try {
+          guard = this.parseCondition();
+        } finally {
+          this.inGuard = false;
+        }
+      }
+      this.expect('=>');
+      const body = this.check('{') ? this.parseBlock() : [this.parseStatement()];
+      this.match(',');
+      cases.push({ patterns, guard, body, line: caseToken.line, column: caseToken.column });
+    }
+    this.expect('}');
+    return { type: 'MatchStatement', subject, cases, line: start.line, column: start.column };
+  }
+
+  private parseWhile(labelToken?: Token): WhileStatement {
+    const start = labelToken ?? this.peek();
+    this.expect('while');
+    const label = labelToken?.value;
+    const condition = this.parseCondition();
+    const body = this.parseLoopBody(label, start);
+    return { type: 'WhileStatement', label, condition, body, line: start.line, column: start.column };
+  }
+
+  private parseFor(labelToken?: Token): ForStatement | ForInStatement {
+    const start = labelToken ?? this.peek();
+    this.expect('for');
+    const label = labelToken?.value;
+    if (this.isForIn()) {
+      return this.parseForIn(label, start);
+    }
+    this.expect('(');
+
+    const init = this.check(';') ? undefined : this.parseForClause();
+    this.expect(';');
+    const condition = this.check(';') ? undefined : this.parseCondition();
+    this.expect(';');
+    const update = this.check(')') ? undefined : this.parseForClause();
+    this.expect(')');
+
+    const body = this.parseLoopBody(label, start);
+    return { type: 'ForStatement', label, init, condition, update, body, line: start.line, column: start.column };
+  }
+
+  // for x in ... / for k, v in ..., optionally wrapped in parentheses
+  private isForIn(): boolean {
+    const offset = this.check('(') ? 1 : 0;
+    return this.checkIdentifier(undefined, offset) && (this.check('in', offset + 1) || this.check(',', offset + 1));
+  }
+
+  private parseForIn(label: string | undefined, start: Token): ForInStatement {
+    const parenthesized = this.match('(');
+    const variables = [this.expectIdentifier('a loop variable name').value];
+    if (this.match(',')) {
+      const second = this.expectIdentifier('a loop variable name');
+      if (second.value === variables[0]) {
+        this.error(`Loop variable '${second.value}' is declared twice`, second);
+      }
+      variables.push(second.value);
+    }
+    this.expect('in');
+    const iterable = this.parseCondition();
+    if (parenthesized) {
+      this.expect(')');
+    }
+    const body = this.parseLoopBody(label, start);
+    return { type: 'ForInStatement', label, variables, iterable, body, line: start.line, column: start.column };
+  }
+
+  private parseLoopBody(label: string | undefined, start: Token): Statement[] {
+    if (label !== undefined && this.loopLabels.includes(label)) {
+      this.error(`Label '${label}' is already used by an enclosing loop`, start);
+    }
+    this.loopLabels.push(label);
+    try {
+      return this.parseBlock();
+    } finally {
+      this.loopLabels.pop();
+    }
+  }
+
+  // break [label] / continue [label]; the label must be on the same line
+  private parseLoopControl(): BreakStatement | ContinueStatement {
+    const start = this.advance();
+    const type = start.value === 'break' ? 'BreakStatement' : 'ContinueStatement';
+
+    let label: string | undefined;
+    if (this.checkIdentifier() && this.onSameLine()) {
+      label = this.advance().value;
+    }
+
+    if (this.loopLabels.length === 0) {
+      this.error(`'${start.value}' can only be used inside a loop`, start);
+    }
+    if (label !== undefined && !this.loopLabels.includes(label)) {
+      this.error(`No enclosing loop is labelled '${label}'`, this.previous());
+    }
+    return { type, label, line: start.line, column: start.column };
+  }
+
+  private parseForClause(): ForClauseStatement {
+    if (this.check('local')) {
+      return this.parseLocal();
+    }
+    const statement = this.parseSimpleStatement();
+    if (statement.type === 'WaitStatement') {
+      this.error(`wait blocks are not allowed in a for loop header`);
+    }
+    return statement;
+  }
+
+  // return / return value / return a, b (a list of the values)
+  private parseReturn(): ReturnStatement {
+    const start = this.expect('return');
+    let value: Expression | undefined;
+    if (!this.isAtEnd() && !this.check('}') && !this.check(';') && this.onSameLine()) {
+      const valueStart = this.peek();
+      value = this.parseExpression();
+      // A ',' before `case` separates match cases instead
+      if (this.check(',') && !this.checkIdentifier('case', 1)) {
+        const elements = [value];
+        while (this.check(',') && !this.checkIdentifier('case', 1)) {
+          this.advance();
+          elements.push(this.parseExpression());
+        }
+        value = { type: 'ListLiteral', elements, line: valueStart.line, column: valueStart.column };
+      }
+    }
+    return { type: 'ReturnStatement', value, line: start.line, column: start.column };
+  }
+
+  private parseTry(): TryStatement {
+    const start = this.expect('try');
+    const body = this.parseBlock();
+
+    let param: string | undefined;
+    let handler: Statement[] | undefined;
+    if (this.match('catch')) {
+      if (this.match('(')) {
+        param = this.expectIdentifier('an error variable name').value;
+        this.expect(')');
+      }
+      handler = this.parseBlock();
+    }
+
+    let finalizer: Statement[] | undefined;
+    if (this.match('finally')) {
+      finalizer = this.parseBlock();
+    }
+
+    if (!handler && !finalizer) {
+      this.error(`Expected 'catch' or 'finally' after try block but found ${this.describe(this.peek())}`);
+    }
+
+    return { type: 'TryStatement', body, param, handler, finalizer, line: start.line, column: start.column };
+  }
+
+  private parseThrow(): ThrowStatement {
+    const start = this.expect('throw');
+    if (this.isAtEnd() || this.check('}') || this.check(';') || !this.onSameLine()) {
+      this.error(`Expected a value after 'throw'`, start);
+    }
+    const value = this.parseExpression();
+    return { type: 'ThrowStatement', value, line: start.line, column: start.column };
+  }
+
+  // Assignment, wait block or bare expression
+  private parseSimpleStatement(): AssignmentStatement | MultipleAssignmentStatement | WaitStatement | ExpressionStatement {
+    const start = this.peek();
+    const expression = this.parseExpression();
+
+    // a, b = b, a. A ',' before `case` separates match cases instead.
+    if (this.check(',') && !this.checkIdentifier('case', 1)) {
+      const targets = [this.toAssignmentTarget(expression, start)];
+      while (this.match(',')) {
+        const targetStart = this.peek();
+        targets.push(this.toAssignmentTarget(this.parseExpression(), targetStart));
+      }
+      this.expect('=');
+      const values: Expression[] = [];
+      do {
+        values.push(this.parseExpression());
+      } while (this.match(','));
+      return { type: 'MultipleAssignmentStatement', targets, values, line: start.line, column: start.column };
+    }
+
+    if (this.check('=') || ASSIGNMENT_OPERATORS.some(op => this.check(op))) {
+      const target = this.toAssignmentTarget(expression, start);
+      const operator = this.advance().value as AssignmentOperator;
+      const value = this.parseExpression();
+      return { type: 'AssignmentStatement', operator, target, value, line: start.line, column: start.column };
+    }
+
+    // wait(seconds) { ... }
+    if (
+      expression.type === 'CallExpression' &&
+      expression.callee.type === 'Identifier' &&
+      expression.callee.name === 'wait' &&
+      this.check('{')
+    ) {
+      if (expression.args.length !== 1) {
+        this.error(`wait() expects exactly one argument`, start);
+      }
+      const body = this.parseBlock();
+      return { type: 'WaitStatement', seconds: expression.args[0], body, line: start.line, column: start.column };
+    }
+
+    return { type: 'ExpressionStatement', expression, line: start.line, column: start.column };
+  }
+
+  private toAssignmentTarget(expression: Expression, start: Token): AssignmentTarget {
+    if (expression.type !== 'Identifier' && expression.type !== 'MemberExpression' && expression.type !== 'IndexExpression') {
+      this.error(`Invalid assignment target`, start);
+    }
+    return expression;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Patterns
+  // ---------------------------------------------------------------------------
+
+  private parsePattern(): Pattern {
+    const token = this.peek();
+    if (this.check('[')) {
+      return this.parseListPattern();
+    }
+    if (this.check('{')) {
+      return this.parseTablePattern();
+    }
+    if (this.checkIdentifier() && !this.check('.', 1)) {
+      this.advance();
+      return token.value === '_'
+        ? { type: 'WildcardPattern', line: token.line, column: token.column }
+        : { type: 'BindingPattern', name: token.value, line: token.line, column: token.column };
+    }
+    // Literals and dotted names such as Color.Red
+    const literal = token.type === 'number' || token.type === 'string' || token.type === 'template' ||
+      this.check('true') || this.check('false') || this.check('null') || this.check('undefined') ||
+      (this.check('-') && this.peek(1).type === 'number');
+    if (!literal && !this.checkIdentifier()) {
+      this.error(`Expected a pattern but found ${this.describe(token)}`);
+    }
+    return { type: 'ValuePattern', value: this.parseUnary(), line: token.line, column: token.column };
+  }
+
+  private parseListPattern(): ListPattern {
+    const open = this.expect('[');
+    const elements: Pattern[] = [];
+    let rest: string | undefined;
+    while (!this.check(']')) {
+      if (this.match('...')) {
+        rest = this.expectIdentifier(`a name after '...'`).value;
+        break;
+      }
+      elements.push(this.parsePattern());
+      if (!this.match(',')) break;
+    }
+    this.expect(']');
+    return { type: 'ListPattern', elements, rest, line: open.line, column: open.column };
+  }
+
+  // Keys are names, strings or numbers, as in table literals
+  private parseTablePattern(): TablePattern {
+    const open = this.expect('{');
+    const entries: TablePatternEntry[] = [];
+    while (!this.check('}')) {
+      const keyToken = this.peek();
+      if (keyToken.type !== 'identifier' && keyToken.type !== 'keyword' && keyToken.type !== 'string' && keyToken.type !== 'number') {
+        this.error(`Expected a table key but found ${this.describe(keyToken)}`);
+      }
+      this.advance();
+      const key = keyToken.type === 'number' ? String(Number(keyToken.value)) : keyToken.value;
+      let value: Pattern;
+      if (this.match('=')) {
+        value = this.parsePattern();
+      } else if (keyToken.type === 'identifier') {
+        value = { type: 'BindingPattern', name: key, line: keyToken.line, column: keyToken.column };
+      } else {
+        this.error(`Expected '=' after table key ${this.describe(keyToken)}`);
+      }
+      entries.push({ key, value, line: keyToken.line, column: keyToken.column });
+      if (!this.match(',') && !this.match(';')) break;
+    }
+    this.expect('}');
+    return { type: 'TablePattern', entries, line: open.line, column: open.column };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions (lowest to highest precedence)
+  // ---------------------------------------------------------------------------
+
+  parseExpression(): Expression {
+    return this.parseOr();
+  }
+
+  // Conditions and parenthesized expressions never contain an assignment, so
+  // a '=' right after one is almost always a mistyped '=='
+  private parseCondition(): Expression {
+    const expression = this.parseExpression();
+    if (this.check('=')) {
+      this.error(`Cannot assign inside a condition or expression; use '==' to compare values`);
+    }
+    return expression;
+  }
+
+  private parseOr(): Expression {
+    return this.parseLogicalLevel('or', ['or', '||'], () => this.parseAnd());
+  }
+
+  private parseAnd(): Expression {
+    return this.parseLogicalLevel('and', ['and', '&&'], () => this.parseEquality());
+  }
+
+  private parseLogicalLevel(operator: LogicalOperator, spellings: string[], next: () => Expression): Expression {
+    let left = next();
+    while (spellings.some(spelling => this.check(spelling))) {
+      const operatorToken = this.advance();
+      const right = next();
+      left = {
+        type: 'LogicalExpression',
+        operator,
+        left,
+        right,
+        line: operatorToken.line,
+        column: operatorToken.column,
+      };
+    }
+    return left;
+  }
+
+  private parseBinaryLevel(operators: BinaryOperator[], next: () => Expression): Expression {
+    let left = next();
+    while (operators.some(op => this.check(op))) {
+      const operatorToken = this.advance();
+      const right = next();
+      left = {
+        type: 'BinaryExpression',
+        operator: operatorToken.value as BinaryOperator,
+        left,
+        right,
+        line: operatorToken.line,
+        column: operatorToken.column,
+      };
+    }
+    return left;
+  }
+
+  private parseEquality(): Expression {
+    return this.parseBinaryLevel(['==', '!='], () => this.parseComparison());
+  }
+
+  private parseComparison(): Expression {
+    return this.parseBinaryLevel(['<', '>', '<=', '>='], () => this.parseConcat());
+  }
+
+  private parseConcat(): Expression {
+    return this.parseBinaryLevel(['..'], () => this.parseAdditive());
+  }
+
+  private parseAdditive(): Expression {
+    return this.parseBinaryLevel(['+', '-'], () => this.parseMultiplicative());
+  }
+
+  private parseMultiplicative(): Expression {
+    return this.parseBinaryLevel(['*', '/', '%'], () => this.parseUnary());
+  }
+
+  private parseUnary(): Expression {
+    if (this.check('++') || this.check('--')) {
+      const operatorToken = this.advance();
+      const argumentStart = this.peek();
+      const argument = this.toAssignmentTarget(this.parseUnary(), argumentStart);
+      return {
+        type: 'UpdateExpression',
+        operator: operatorToken.value as '++' | '--',
+        prefix: true,
+        argument,
+        line: operatorToken.line,
+        column: operatorToken.column,
+      };
+    }
+    if (this.check('await')) {
+      const awaitToken = this.advance();
+      return { type: 'AwaitExpression', argument: this.parseUnary(), line: awaitToken.line, column: awaitToken.column };
+    }
+    if (this.check('-') || this.check('#') || this.check('not') || this.check('!')) {
+      const operatorToken = this.advance();
+      const argument = this.parseUnary();
+      return {
+        type: 'UnaryExpression',
+        operator: operatorToken.value === '!' ? 'not' : operatorToken.value as UnaryOperator,
+        argument,
+        line: operatorToken.line,
+        column: operatorToken.column,
+      };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Expression {
+    let expression = this.parsePrimary();
+
+    while (true) {
+      if (this.check('.')) {
+        this.advance();
+        const property = this.expectPropertyName();
+        expression = { type: 'MemberExpression', object: expression, property: property.value, line: property.line, column: property.column };
+      } else if (this.check('[') && this.onSameLine()) {
+        const open = this.advance();
+        const index = this.parseExpression();
+        this.expect(']');
+        expression = { type: 'IndexExpression', object: expression, index, line: open.line, column: open.column };
+      } else if (this.check('(') && this.onSameLine()) {
+        const open = this.peek();
+        const { args, namedArgs } = this.parseArguments();
+        expression = { type: 'CallExpression', callee: expression, args, namedArgs, line: open.line, column: open.column };
+      } else if (this.check(':') && this.checkPropertyName(1) && this.check('(', 2) && this.onSameLine()) {
+        // obj:method(args)
+        this.advance();
+        const method = this.advance();
+        const { args, namedArgs } = this.parseArguments();
+        expression = {
+          type: 'MethodCallExpression',
+          object: expression,
+          method: method.value,
+          args,
+          namedArgs,
+          line: method.line,
+          column: method.column,
+        };
+      } else if ((this.check('++') || this.check('--')) && this.onSameLine()) {
+        const operatorToken = this.peek();
+        const argument = this.toAssignmentTarget(expression, operatorToken);
+        this.advance();
+        expression = {
+          type: 'UpdateExpression',
+          operator: operatorToken.value as '++' | '--',
+          prefix: false,
+          argument,
+          line: operatorToken.line,
+          column: operatorToken.column,
+        };
+      } else {
+        break;
+      }
+    }
+
+    return expression;
+  }
+
+  // (a, b, name = value): named arguments follow the positional ones
+  private parseArguments(): { args: Expression[]; namedArgs: NamedArgument[] } {
+    this.expect('(');
+    const args: Expression[] = [];
+    const namedArgs: NamedArgument[] = [];
+    while (!this.check(')')) {
+      if (this.checkIdentifier() && this.check('=', 1)) {
+        const name = this.advance();
+        this.advance();
+        if (namedArgs.some(arg => arg.name === name.value)) {
+          this.error(`Argument '${name.value}' is given twice`, name);
+        }
+        namedArgs.push({ name: name.value, value: this.parseExpression(), line: name.line, column: name.column });
+      } else {
+        if (namedArgs.length > 0) {
+          this.error(`Positional arguments must come before named arguments`);
+        }
+        args.push(this.parseExpression());
+      }
+      if (!this.match(',')) break;
+    }
+    this.expect(')');
+    return { args, namedArgs };
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'number':
+        this.advance();
+        return { type: 'NumberLiteral', value: Number(token.value), line: token.line, column: token.column };
+      case 'string':
+        this.advance();
+        return { type: 'StringLiteral', value: token.value, line: token.line, column: token.column };
+      case 'template':
+        this.advance();
+        return this.parseTemplate(token);
+      case 'identifier':
+        if (this.isArrowFunction()) {
+          return this.parseArrowFunction();
+        }
+        this.advance();
+        return { type: 'Identifier', name: token.value, line: token.line, column: token.column };
+      case 'keyword':
+        if (token.value === 'true' || token.value === 'false') {
+          this.advance();
+          return { type: 'BooleanLiteral', value: token.value === 'true', line: token.line, column: token.column };
+        }
+        if (token.value === 'null') {
+          this.advance();
+          return { type: 'NullLiteral', line: token.line, column: token.column };
+        }
+        if (token.value === 'undefined') {
+          this.advance();
+          return { type: 'UndefinedLiteral', line: token.line, column: token.column };
+        }
+        if (token.value === 'function') {
+          return this.parseFunctionExpression();
+        }
+        break;
+      case 'operator':
+        if (token.value === '(' && this.isArrowFunction()) {
+          return this.parseArrowFunction();
+        }
+        if (token.value === '(') {
+          this.advance();
+          const expression = this.parseCondition();
+          this.expect(')');
+          return expression;
+        }
+        if (token.value === '[') {
+          return this.parseListLiteral();
+        }
+        if (token.value === '{') {
+          return this.parseTableLiteral();
+        }
+        break;
+    }
+
+    this.error(`Unexpected ${this.describe(token)}`);
+  }
+
+  private parseFunctionExpression(): FunctionExpression {
+    const start = this.expect('function');
+    const { params, hasRestParam } = this.parseParameterList();
+    const returnType = this.match(':') ? this.parseTypeAnnotation() : undefined;
+    const body = this.parseFunctionBody();
+    return { type: 'FunctionExpression', params, hasRestParam, returnType, body, line: start.line, column: start.column };
+  }
+
+  // `x =>` or a parenthesized list followed by `=>`
+  private isArrowFunction(): boolean {
+    if (this.inGuard) {
+      return false;
+    }
+    if (this.checkIdentifier()) {
+      return this.check('=>', 1);
+    }
+    let depth = 0;
+    for (let offset = 0; this.peek(offset).type !== 'eof'; offset++) {
+      const token = this.peek(offset);
+      if (token.type !== 'operator') continue;
+      if (token.value === '(') {
+        depth++;
+      } else if (token.value === ')' && --depth === 0) {
+        return this.check('=>', offset + 1);
+      }
+    }
+    return false;
+  }
+
+  private parseArrowFunction(): FunctionExpression {
+    const start = this.peek();
+    const { params, hasRestParam } = this.check('(')
+      ? this.parseParameterList()
+      : { params: [this.parseParameter()], hasRestParam: false };
+    this.expect('=>');
+
+    let body: Statement[];
+    if (this.check('{')) {
+      body = this.parseFunctionBody();
+    } else {
+      const valueStart = this.peek();
+      const value = this.parseExpression();
+      body = [{ type: 'ReturnStatement', value, line: valueStart.line, column: valueStart.column }];
+    }
+    return { type: 'FunctionExpression', params, hasRestParam, body, line: start.line, column: start.column };
+  }
+
+  // Each ${...} in a template holds exactly one expression
+  private parseTemplate(token: Token): TemplateLiteral {
+    const parts = (token.parts ?? []).map(part => {
+      if (typeof part === 'string') return part;
+      const parser = new FluxoParser(part, this.filePath);
+      if (parser.isAtEnd()) {
+        this.error(`Empty \${} in template string`, part[0]);
+      }
+      const expression = parser.parseCondition();
+      if (!parser.isAtEnd()) {
+        parser.error(`Unexpected ${parser.describe(parser.peek())} in template expression`);
+      }
+      return expression;
+    });
+    return { type: 'TemplateLiteral', parts, line: token.line, column: token.column };
+  }
+
+  private parseListLiteral(): Expression {
+    const open = this.expect('[');
+    const elements: Expression[] = [];
+    while (!this.check(']')) {
+      elements.push(this.parseExpression());
+      if (!this.match(',')) break;
+    }
+    this.expect(']');
+    return { type: 'ListLiteral', elements, line: open.line, column: open.column };
+  }
+
+  // Keys are names, strings, numbers or [expression]; entries are separated by ',' or ';'
+  private parseTableLiteral(): Expression {
+    const open = this.expect('{');
+    const entries: TableEntry[] = [];
+    while (!this.check('}')) {
+      const keyToken = this.peek();
+      let key: string | Expression;
+      if (this.match('[')) {
+        key = this.parseExpression();
+        this.expect(']');
+      } else if (keyToken.type === 'identifier' || keyToken.type === 'keyword' || keyToken.type === 'string' || keyToken.type === 'number') {
+        this.advance();
+        key = keyToken.type === 'number' ? String(Number(keyToken.value)) : keyToken.value;
+      } else {
+        this.error(`Expected a table key but found ${this.describe(keyToken)}`);
+      }
+      this.expect('=');
+      const value = this.parseExpression();
+      entries.push({ key, value, line: keyToken.line, column: keyToken.column });
+      if (!this.match(',') && !this.match(';')) break;
+    }
+    this.expect('}');
+    return { type: 'TableLiteral', entries, line: open.line, column: open.column };
+  }
+}
+
+export function parseFluxo(source: string, filePath?: string): Program {
+  return new FluxoParser(tokenize(source, filePath), filePath).parseProgram();
+}
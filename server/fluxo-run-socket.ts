@@ -0,0 +1,121 @@
+// Streaming runs over WebSocket
+// The IDE opens one socket per run at RUN_SOCKET_PATH, sends a start message
+// and receives run-started, output and run-finished events as they happen.
+// Closing the socket (or sending cancel) cancels the run. When the program
+// calls input(), the server sends input-request and waits for an input reply.
+
+import type { Server } from "http";
+import { WebSocketServer, WebSocket } from "ws";
+import {
+  RUN_SOCKET_PATH,
+  type OutputMessage,
+  runClientMessageSchema,
+  type RunClientMessage,
+  type RunRequest,
+  type RunServerMessage,
+  type RunFinishedStatus,
+} from "@shared/schema";
+import { runRegistry, type FluxoRun } from "./fluxo-runs";
+import { runFile, runWorkspace, type RunHooks } from "./fluxo-runner";
+
+export function attachRunSocket(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on('upgrade', (req, socket, head) => {
+    const { pathname } = new URL(req.url ?? '', 'http://localhost');
+    // Other upgrade requests (e.g. Vite HMR) are handled elsewhere
+    if (pathname !== RUN_SOCKET_PATH) return;
+    wss.handleUpgrade(req, socket, head, ws => wss.emit('connection', ws, req));
+  });
+
+  wss.on('connection', handleConnection);
+}
+
+function handleConnection(socket: WebSocket) {
+  let run: FluxoRun | undefined;
+  let started = false;
+  // Resolves the input() call the program is currently paused on
+  let pendingInput: ((value: string) => void) | undefined;
+
+  const send = (message: RunServerMessage) => {
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(message));
+    }
+  };
+
+  socket.on('message', async (raw) => {
+    let message: RunClientMessage;
+    try {
+      message = runClientMessageSchema.parse(JSON.parse(raw.toString()));
+    } catch {
+      send({ type: 'run-finished', status: 'failed', error: 'Invalid run message', durationMs: 0 });
+      socket.close();
+      return;
+    }
+
+    switch (message.type) {
+      case 'start':
+        if (started) return;
+        started = true;
+        try {
+          run = runRegistry.start(message.request.runId);
+        } catch (error: any) {
+          send({ type: 'run-finished', status: 'failed', error: error.message, durationMs: 0 });
+          socket.close();
+          return;
+        }
+        const startedRun = run;
+        const requestInput = (prompt: string) => new Promise<string>(resolve => {
+          pendingInput = resolve;
+          send({ type: 'input-request', runId: startedRun.id, prompt });
+        });
+        await streamRun(run, message.request, send, requestInput);
+        socket.close();
+        break;
+      case 'cancel':
+        run?.token.cancel();
+        break;
+      case 'input':
+        pendingInput?.(message.value);
+        pendingInput = undefined;
+        break;
+    }
+  });
+
+  // Nobody is listening any more, so there is no point in finishing the run
+  socket.on('close', () => run?.token.cancel());
+}
+
+async function streamRun(
+  run: FluxoRun,
+  request: RunRequest,
+  send: (message: RunServerMessage) => void,
+  requestInput: RunHooks['requestInput']
+) {
+  send({ type: 'run-started', runId: run.id, startedAt: run.startedAt });
+
+  const hooks: RunHooks = {
+    onOutput: (message: OutputMessage) => send({ type: 'output', runId: run.id, message }),
+    requestInput,
+  };
+
+  let status: RunFinishedStatus = 'completed';
+  let error: string | undefined;
+  try {
+    if (request.kind === 'workspace') {
+      await runWorkspace(request, run, hooks);
+    } else {
+      await runFile(request, run, hooks);
+    }
+    if (run.token.isCancelled()) {
+      status = 'cancelled';
+    }
+  } catch (e: any) {
+    status = 'failed';
+    error = e.message || 'Execution failed';
+  } finally {
+    runRegistry.finish(run.id);
+  }
+
+  send({ type: 'run-finished', runId: run.id, status, error, durationMs: Date.now() - run.startedAt });
+}
@@ -0,0 +1,139 @@
+// Fluxo runner
+// Executes a single file or a whole workspace for one run. Shared by the JSON
+// execute endpoints and the streaming run socket.
+
+import { randomUUID } from "crypto";
+import type { OutputMessage, ExecuteCodeRequest, ExecuteWorkspaceRequest } from "@shared/schema";
+import { storage } from "./storage";
+import { FluxoInterpreter, type FluxoRunOptions } from "./fluxo-interpreter";
+import { checkTypes } from "./fluxo-types";
+import type { FluxoRun } from "./fluxo-runs";
+
+// Callbacks for runs that talk to a live client
+export type RunHooks = Pick<FluxoRunOptions, 'onOutput' | 'requestInput'>;
+
+export async function runFile(
+  data: ExecuteCodeRequest,
+  run: FluxoRun,
+  hooks: RunHooks = {}
+): Promise<OutputMessage[]> {
+  const isHtmlFile = data.path.endsWith('.html') || data.path.endsWith('.htm');
+  if (!isHtmlFile) {
+    const typeErrors = await reportTypeErrors([data], message => hooks.onOutput?.(message));
+    if (typeErrors.length > 0) return typeErrors;
+  }
+
+  const interpreter = new FluxoInterpreter(data.path, { ...hooks, budget: data.budget, cancellation: run.token });
+  return await interpreter.execute(data.code, isHtmlFile);
+}
+
+export async function runWorkspace(
+  data: ExecuteWorkspaceRequest,
+  run: FluxoRun,
+  hooks: RunHooks = {}
+): Promise<OutputMessage[]> {
+  // Sort files: modules (.fxm) first, then scripts (.fxo)
+  const moduleFiles = data.files.filter(f => f.path.endsWith('.fxm'));
+  const scriptFiles = data.files.filter(f => f.path.endsWith('.fxo'));
+  const sortedFiles = [...moduleFiles, ...scriptFiles];
+
+  await syncWorkspaceFiles(data.files);
+
+  // Every file shares one interpreter context, so the output is collected once
+  // here rather than from each file's execute() result
+  const output: OutputMessage[] = [];
+  const emit = (message: OutputMessage) => {
+    output.push(message);
+    hooks.onOutput?.(message);
+  };
+
+  if ((await reportTypeErrors(sortedFiles, emit)).length > 0) {
+    return output;
+  }
+
+  // Create a shared interpreter context using the entry point
+  const interpreter = new FluxoInterpreter(data.entryPoint, {
+    budget: data.budget,
+    cancellation: run.token,
+    onOutput: emit,
+    requestInput: hooks.requestInput,
+  });
+
+  // Execute all files in order
+  for (const file of sortedFiles) {
+    // The budget covers the whole workspace run; once it is spent or the run
+    // is cancelled, skip the remaining files
+    if (interpreter.isStopped()) break;
+    try {
+      // Create interpreter with correct file path for each file
+      const fileInterpreter = new FluxoInterpreter(file.path);
+      // Copy context from main interpreter to share modules/variables
+      fileInterpreter['context'] = interpreter['context'];
+      await fileInterpreter.execute(file.code, false);
+    } catch (error: any) {
+      emit({
+        id: randomUUID(),
+        type: 'error',
+        message: `Error in ${file.path}: ${error.message}`,
+        timestamp: Date.now(),
+        filePath: file.path,
+      });
+    }
+  }
+
+  return output;
+}
+
+// Type errors stop a run before any code runs, like syntax errors do
+async function reportTypeErrors(
+  files: { path: string; code: string }[],
+  emit: (message: OutputMessage) => void
+): Promise<OutputMessage[]> {
+  const diagnostics = await checkTypes(files);
+  return diagnostics.map(diagnostic => {
+    const message: OutputMessage = {
+      id: randomUUID(),
+      type: 'error',
+      message: diagnostic.message,
+      timestamp: Date.now(),
+      filePath: diagnostic.filePath,
+      line: diagnostic.line,
+      column: diagnostic.column,
+    };
+    emit(message);
+    return message;
+  });
+}
+
+// Store all files temporarily in storage so imports can find them
+async function syncWorkspaceFiles(files: ExecuteWorkspaceRequest['files']) {
+  for (const file of files) {
+    const fileContent = await storage.getFileContent(file.path);
+    if (fileContent === undefined) {
+      // File doesn't exist, create it
+      const fileName = file.path.substring(file.path.lastIndexOf('/') + 1);
+      const parentPath = file.path.substring(0, file.path.lastIndexOf('/')) || '/';
+
+      // Ensure parent folder exists
+      if (parentPath !== '/') {
+        const parentParts = parentPath.split('/').filter(p => p);
+        let currentPath = '';
+        for (const part of parentParts) {
+          const folderPath = currentPath === '' ? `/${part}` : `${currentPath}/${part}`;
+          const folderContent = await storage.getFileContent(folderPath);
+          if (folderContent === undefined) {
+            // Create folder
+            const folderParent = currentPath === '' ? '/' : currentPath;
+            await storage.createFile(folderParent, part, 'folder');
+          }
+          currentPath = folderPath;
+        }
+      }
+
+      await storage.createFile(parentPath, fileName, 'file', file.code);
+    } else {
+      // File exists, update it
+      await storage.updateFile(file.path, file.code);
+    }
+  }
+}
@@ -0,0 +1,120 @@
+// Fluxo run registry
+// Every execution request gets a run ID and a cancellation token. The registry
+// lets a separate request (the IDE's Stop button) cancel a run in progress.
+
+import { randomUUID } from "crypto";
+import { FluxoCancelledError } from "./fluxo-errors";
+
+// How many checkpoints pass between yields to the event loop. Without yielding,
+// a tight Fluxo loop only ever awaits microtasks and the cancel request is
+// never served.
+const CHECKPOINT_YIELD_INTERVAL = 1000;
+
+export class CancellationToken {
+  private cancelled = false;
+  private checkpoints = 0;
+  private listeners = new Set<() => void>();
+
+  isCancelled(): boolean {
+    return this.cancelled;
+  }
+
+  cancel() {
+    if (this.cancelled) return;
+    this.cancelled = true;
+    this.listeners.forEach(listener => listener());
+    this.listeners.clear();
+  }
+
+  // A token that is cancelled along with this one but can also be cancelled
+  // on its own (a task within a run)
+  child(): CancellationToken {
+    const child = new CancellationToken();
+    if (this.cancelled) {
+      child.cancel();
+    } else {
+      const onCancel = () => child.cancel();
+      this.listeners.add(onCancel);
+      child.listeners.add(() => this.listeners.delete(onCancel));
+    }
+    return child;
+  }
+
+  throwIfCancelled() {
+    if (this.cancelled) {
+      throw new FluxoCancelledError();
+    }
+  }
+
+  // Called between statements and loop iterations
+  async checkpoint() {
+    if (++this.checkpoints % CHECKPOINT_YIELD_INTERVAL === 0) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    this.throwIfCancelled();
+  }
+
+  // Resolves after `ms`, or rejects as soon as the run is cancelled
+  sleep(ms: number): Promise<void> {
+    this.throwIfCancelled();
+    return new Promise((resolve, reject) => {
+      const onCancel = () => {
+        clearTimeout(timer);
+        reject(new FluxoCancelledError());
+      };
+      const timer = setTimeout(() => {
+        this.listeners.delete(onCancel);
+        resolve();
+      }, ms);
+      this.listeners.add(onCancel);
+    });
+  }
+
+  // Settles like `promise`, or rejects as soon as the run is cancelled
+  race<T>(promise: Promise<T>): Promise<T> {
+    this.throwIfCancelled();
+    return new Promise((resolve, reject) => {
+      const onCancel = () => reject(new FluxoCancelledError());
+      this.listeners.add(onCancel);
+      promise.then(resolve, reject).finally(() => this.listeners.delete(onCancel));
+    });
+  }
+}
+
+export interface FluxoRun {
+  id: string;
+  startedAt: number;
+  token: CancellationToken;
+}
+
+export class RunRegistry {
+  private runs = new Map<string, FluxoRun>();
+
+  // Clients may choose the ID so they can cancel before the run's response arrives
+  start(id: string = randomUUID()): FluxoRun {
+    if (this.runs.has(id)) {
+      throw new Error(`Run ${id} is already in progress`);
+    }
+    const run: FluxoRun = { id, startedAt: Date.now(), token: new CancellationToken() };
+    this.runs.set(id, run);
+    return run;
+  }
+
+  get(id: string): FluxoRun | undefined {
+    return this.runs.get(id);
+  }
+
+  // Returns false if no run with this ID is in progress
+  cancel(id: string): boolean {
+    const run = this.runs.get(id);
+    if (!run) return false;
+    run.token.cancel();
+    return true;
+  }
+
+  finish(id: string) {
+    this.runs.delete(id);
+  }
+}
+
+export const runRegistry = new RunRegistry();
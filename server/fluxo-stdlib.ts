@@ -0,0 +1,382 @@
+// Fluxo standard library
+// Built-in modules imported with the std: prefix, e.g. `import str "std:string"`
+// or `import from "std:list" { map, filter }`. They are created once per run
+// by the interpreter, which supplies the host hooks for calling back into
+// Fluxo code and formatting values.
+
+export interface StdlibHost {
+  callFunction(callee: any, args: any[]): Promise<any>;
+  isCallable(value: any): boolean;
+  formatValue(value: any): Promise<string>;  // Runs tostring methods, so it is async
+  typeName(value: any): string;
+}
+
+export const STD_MODULE_PREFIX = 'std:';
+
+const STD_MODULES: Record<string, (host: StdlibHost) => Record<string, any>> = {
+  string: createStringModule,
+  math: createMathModule,
+  list: createListModule,
+  table: createTableModule,
+  json: createJsonModule,
+};
+
+export const STD_MODULE_NAMES = Object.keys(STD_MODULES);
+
+// Exports of std:<name>, or undefined if there is no such module
+export function createStdModule(name: string, host: StdlibHost): Record<string, any> | undefined {
+  if (!Object.prototype.hasOwnProperty.call(STD_MODULES, name)) return undefined;
+  return STD_MODULES[name](host);
+}
+
+// Argument checks shared by every module. `fn` is the qualified name used in
+// the error, e.g. "string.split".
+function expectType(host: StdlibHost, fn: string, value: any, type: 'string' | 'number' | 'list' | 'table' | 'function') {
+  const actual = host.isCallable(value) ? 'function' : host.typeName(value);
+  if (actual !== type) {
+    throw new Error(`Type Error: ${fn} expects a ${type}, got ${actual}`);
+  }
+}
+
+// Lists and tables passed to freeze() cannot be changed
+function expectMutable(fn: string, value: any) {
+  if (Object.isFrozen(value)) {
+    throw new Error(`Runtime Error: ${fn} cannot change a frozen ${Array.isArray(value) ? 'list' : 'table'}`);
+  }
+}
+
+function createStringModule(host: StdlibHost) {
+  const expectString = (fn: string, value: any) => expectType(host, `string.${fn}`, value, 'string');
+
+  return {
+    split: (text: any, separator: any = '') => {
+      expectString('split', text);
+      expectString('split', separator);
+      return separator === '' ? Array.from(text) : text.split(separator);
+    },
+    join: async (items: any, separator: any = '') => {
+      expectType(host, 'string.join', items, 'list');
+      expectString('join', separator);
+      const texts: string[] = [];
+      for (const item of items) {
+        texts.push(await host.formatValue(item));
+      }
+      return texts.join(separator);
+    },
+    trim: (text: any) => {
+      expectString('trim', text);
+      return text.trim();
+    },
+    upper: (text: any) => {
+      expectString('upper', text);
+      return text.toUpperCase();
+    },
+    lower: (text: any) => {
+      expectString('lower', text);
+      return text.toLowerCase();
+    },
+    // Replaces every occurrence; the search text is taken literally
+    replace: (text: any, search: any, replacement: any) => {
+      expectString('replace', text);
+      expectString('replace', search);
+      expectString('replace', replacement);
+      return search === '' ? text : text.split(search).join(replacement);
+    },
+    // Index of the first occurrence at or after `start`, or -1
+    find: (text: any, search: any, start: any = 0) => {
+      expectString('find', text);
+      expectString('find', search);
+      expectType(host, 'string.find', start, 'number');
+      return text.indexOf(search, start);
+    },
+    contains: (text: any, search: any) => {
+      expectString('contains', text);
+      expectString('contains', search);
+      return text.includes(search);
+    },
+    startsWith: (text: any, prefix: any) => {
+      expectString('startsWith', text);
+      expectString('startsWith', prefix);
+      return text.startsWith(prefix);
+    },
+    endsWith: (text: any, suffix: any) => {
+      expectString('endsWith', text);
+      expectString('endsWith', suffix);
+      return text.endsWith(suffix);
+    },
+    repeat: (text: any, count: any) => {
+      expectString('repeat', text);
+      expectType(host, 'string.repeat', count, 'number');
+      if (count < 0 || !Number.isInteger(count)) {
+        throw new Error(`Runtime Error: string.repeat count must be a whole number of 0 or more`);
+      }
+      return text.repeat(count);
+    },
+    // format("{} has {} items", name, n) fills `{}` in order; `{0}`, `{1}`
+    // pick an argument by position. `{{` and `}}` give literal braces.
+    format: async (template: any, ...args: any[]) => {
+      expectString('format', template);
+      const texts: string[] = [];
+      for (const arg of args) {
+        texts.push(await host.formatValue(arg));
+      }
+      let next = 0;
+      return template.replace(/\{\{|\}\}|\{(\d*)\}/g, (match: string, index: string) => {
+        if (match === '{{') return '{';
+        if (match === '}}') return '}';
+        const position = index === '' ? next++ : Number(index);
+        if (position >= args.length) {
+          throw new Error(`Runtime Error: string.format has no argument for ${match}`);
+        }
+        return texts[position];
+      });
+    },
+  };
+}
+
+function createMathModule(host: StdlibHost) {
+  const expectNumber = (fn: string, value: any) => expectType(host, `math.${fn}`, value, 'number');
+  const unary = (fn: string, op: (x: number) => number) => (x: any) => {
+    expectNumber(fn, x);
+    return op(x);
+  };
+
+  // mulberry32: small and good enough for games and shuffles, and repeatable
+  // once seeded. Unseeded runs start from a random state.
+  let state = Math.floor(Math.random() * 2 ** 32);
+  const nextRandom = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+
+  return {
+    pi: Math.PI,
+    huge: Infinity,
+    floor: unary('floor', Math.floor),
+    ceil: unary('ceil', Math.ceil),
+    round: unary('round', Math.round),
+    abs: unary('abs', Math.abs),
+    sqrt: unary('sqrt', Math.sqrt),
+    pow: (base: any, exponent: any) => {
+      expectNumber('pow', base);
+      expectNumber('pow', exponent);
+      return base ** exponent;
+    },
+    min: (...values: any[]) => {
+      if (values.length === 0) throw new Error(`Type Error: math.min expects at least one number`);
+      values.forEach(value => expectNumber('min', value));
+      return Math.min(...values);
+    },
+    max: (...values: any[]) => {
+      if (values.length === 0) throw new Error(`Type Error: math.max expects at least one number`);
+      values.forEach(value => expectNumber('max', value));
+      return Math.max(...values);
+    },
+    // random() gives a number in [0, 1); random(max) a whole number from 1 to
+    // max; random(min, max) a whole number from min to max, both included
+    random: (...args: any[]) => {
+      args.forEach(arg => expectNumber('random', arg));
+      if (args.length === 0) return nextRandom();
+      const [min, max] = args.length === 1 ? [1, args[0]] : args;
+      if (!Number.isInteger(min) || !Number.isInteger(max) || min > max) {
+        throw new Error(`Runtime Error: math.random expects whole numbers with min <= max`);
+      }
+      return min + Math.floor(nextRandom() * (max - min + 1));
+    },
+    // The same seed always produces the same sequence of random numbers
+    seed: (seed: any) => {
+      expectNumber('seed', seed);
+      state = seed | 0;
+    },
+  };
+}
+
+function createListModule(host: StdlibHost) {
+  const expectList = (fn: string, value: any) => expectType(host, `list.${fn}`, value, 'list');
+  const expectFunction = (fn: string, value: any) => expectType(host, `list.${fn}`, value, 'function');
+
+  // Default ordering for sort: numbers by value, strings alphabetically
+  const compareValues = (a: any, b: any) => {
+    if (typeof a === 'number' && typeof b === 'number') return a - b;
+    if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+    throw new Error(
+      `Type Error: list.sort cannot compare ${host.typeName(a)} with ${host.typeName(b)}; pass a compare function`
+    );
+  };
+
+  // Merge sort, because the compare function may be Fluxo code and has to be
+  // awaited. Stable, so equal items keep their order.
+  const mergeSort = async (items: any[], compare: (a: any, b: any) => Promise<number>): Promise<any[]> => {
+    if (items.length <= 1) return items;
+    const middle = Math.floor(items.length / 2);
+    const left = await mergeSort(items.slice(0, middle), compare);
+    const right = await mergeSort(items.slice(middle), compare);
+    const merged: any[] = [];
+    while (left.length > 0 && right.length > 0) {
+      merged.push(await compare(right[0], left[0]) < 0 ? right.shift() : left.shift());
+    }
+    return merged.concat(left, right);
+  };
+
+  return {
+    push: (items: any, ...values: any[]) => {
+      expectList('push', items);
+      expectMutable('list.push', items);
+      items.push(...values);
+      return items.length;
+    },
+    pop: (items: any) => {
+      expectList('pop', items);
+      expectMutable('list.pop', items);
+      return items.pop() ?? null;
+    },
+    // Callbacks receive (item, index)
+    map: async (items: any, fn: any) => {
+      expectList('map', items);
+      expectFunction('map', fn);
+      const result: any[] = [];
+      for (let i = 0; i < items.length; i++) {
+        result.push(await host.callFunction(fn, [items[i], i]));
+      }
+      return result;
+    },
+    filter: async (items: any, fn: any) => {
+      expectList('filter', items);
+      expectFunction('filter', fn);
+      const result: any[] = [];
+      for (let i = 0; i < items.length; i++) {
+        if (await host.callFunction(fn, [items[i], i])) result.push(items[i]);
+      }
+      return result;
+    },
+    // reduce(list, fn(total, item, index), initial); without an initial value
+    // the first item is used
+    reduce: async (items: any, fn: any, ...initial: any[]) => {
+      expectList('reduce', items);
+      expectFunction('reduce', fn);
+      if (items.length === 0 && initial.length === 0) {
+        throw new Error(`Runtime Error: list.reduce of an empty list needs an initial value`);
+      }
+      let total = initial.length > 0 ? initial[0] : items[0];
+      for (let i = initial.length > 0 ? 0 : 1; i < items.length; i++) {
+        total = await host.callFunction(fn, [total, items[i], i]);
+      }
+      return total;
+    },
+    // Sorts in place and returns the list. compare(a, b) returns a negative
+    // number when a goes first, positive when b does, and 0 when either will do.
+    sort: async (items: any, compare?: any) => {
+      expectList('sort', items);
+      expectMutable('list.sort', items);
+      if (compare !== undefined) expectFunction('sort', compare);
+      const sorted = await mergeSort(items.slice(), async (a, b) => {
+        if (compare === undefined) return compareValues(a, b);
+        const order = await host.callFunction(compare, [a, b]);
+        if (typeof order !== 'number') {
+          throw new Error(`Type Error: list.sort compare function must return a number, got ${host.typeName(order)}`);
+        }
+        return order;
+      });
+      items.splice(0, items.length, ...sorted);
+      return items;
+    },
+    // Items from start up to (not including) stop; negative positions count from the end
+    slice: (items: any, start: any = 0, stop?: any) => {
+      expectList('slice', items);
+      expectType(host, 'list.slice', start, 'number');
+      if (stop !== undefined) expectType(host, 'list.slice', stop, 'number');
+      return items.slice(start, stop);
+    },
+    contains: (items: any, value: any) => {
+      expectList('contains', items);
+      return items.includes(value);
+    },
+    indexOf: (items: any, value: any) => {
+      expectList('indexOf', items);
+      return items.indexOf(value);
+    },
+    reverse: (items: any) => {
+      expectList('reverse', items);
+      return items.slice().reverse();
+    },
+  };
+}
+
+function createTableModule(host: StdlibHost) {
+  const expectTable = (fn: string, value: any) => expectType(host, `table.${fn}`, value, 'table');
+
+  return {
+    keys: (table: any) => {
+      expectTable('keys', table);
+      return Object.keys(table);
+    },
+    values: (table: any) => {
+      expectTable('values', table);
+      return Object.values(table);
+    },
+    has: (table: any, key: any) => {
+      expectTable('has', table);
+      return Object.prototype.hasOwnProperty.call(table, String(key));
+    },
+    // Removes the key and returns its value
+    remove: (table: any, key: any) => {
+      expectTable('remove', table);
+      expectMutable('table.remove', table);
+      const value = Object.prototype.hasOwnProperty.call(table, String(key)) ? table[String(key)] : null;
+      delete table[String(key)];
+      return value;
+    },
+    size: (table: any) => {
+      expectTable('size', table);
+      return Object.keys(table).length;
+    },
+    // New table with the keys of every argument; later tables win
+    merge: (...tables: any[]) => {
+      tables.forEach(table => expectTable('merge', table));
+      const merged: Record<string, any> = {};
+      for (const table of tables) {
+        for (const key of Object.keys(table)) merged[key] = table[key];
+      }
+      return merged;
+    },
+  };
+}
+
+function createJsonModule(host: StdlibHost) {
+  // Fluxo value -> plain JSON data, rejecting what JSON cannot represent
+  const toJson = (value: any, seen: Set<any>): any => {
+    if (value === undefined || value === null) return null;
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) throw new Error(`Runtime Error: json.encode cannot encode ${value}`);
+      return value;
+    }
+    if (typeof value === 'string' || typeof value === 'boolean') return value;
+    if (host.isCallable(value)) throw new Error(`Type Error: json.encode cannot encode a function`);
+    if (seen.has(value)) throw new Error(`Runtime Error: json.encode cannot encode a table that contains itself`);
+    seen.add(value);
+    const result = Array.isArray(value)
+      ? value.map(item => toJson(item, seen))
+      : Object.fromEntries(Object.keys(value).map(key => [key, toJson(value[key], seen)]));
+    seen.delete(value);
+    return result;
+  };
+
+  return {
+    // encode(value, indent) pretty-prints when indent is given
+    encode: (value: any, indent?: any) => {
+      if (indent !== undefined) expectType(host, 'json.encode', indent, 'number');
+      return JSON.stringify(toJson(value, new Set()), null, indent);
+    },
+    decode: (text: any) => {
+      expectType(host, 'json.decode', text, 'string');
+      try {
+        return JSON.parse(text);
+      } catch (error: any) {
+        throw new Error(`Runtime Error: json.decode failed: ${error.message}`);
+      }
+    },
+  };
+}
@@ -0,0 +1,150 @@
+// Fluxo tasks
+// Cooperative concurrency for spawn(), await and channels. Tasks take turns:
+// only the task holding the turn runs Fluxo code, and it keeps the turn until
+// it waits (on a timer, a channel, another task or input). So a task's code
+// never interleaves with another's between two waits, just like a single
+// program. Every task has its own cancellation token, a child of the run's
+// token, so stopping the run stops every task too.
+
+import type { FluxoError } from "./fluxo-errors";
+import type { CancellationToken } from "./fluxo-runs";
+
+export type FluxoTaskStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface FluxoTask {
+  id: number;
+  name: string;
+  token: CancellationToken;
+  status: FluxoTaskStatus;
+  result?: any;
+  error?: FluxoError;
+  awaiters: number;  // How many `await`s are currently waiting on the task
+  done: Promise<void>;  // Resolves once the task has finished, however it ended
+}
+
+// The tasks of one run, and the turn they take to run Fluxo code. The main
+// program takes the turn as well.
+export class FluxoTaskGroup {
+  private tasks = new Set<FluxoTask>();
+  private nextId = 1;
+  private turnTaken = false;
+  private waitingForTurn: (() => void)[] = [];
+
+  // Turns are handed out first come, first served
+  async takeTurn() {
+    if (!this.turnTaken) {
+      this.turnTaken = true;
+      return;
+    }
+    await new Promise<void>(resolve => this.waitingForTurn.push(resolve));
+  }
+
+  endTurn() {
+    const next = this.waitingForTurn.shift();
+    if (next) {
+      next();
+    } else {
+      this.turnTaken = false;
+    }
+  }
+
+  // Let other tasks run while `wait` is pending, then take the turn back
+  async yieldWhile<T>(wait: Promise<T>): Promise<T> {
+    this.endTurn();
+    try {
+      return await wait;
+    } finally {
+      await this.takeTurn();
+    }
+  }
+
+  // `body` runs the task and settles with its result; it starts once it gets
+  // the turn. `onFailed` is told about errors, after the task's status has
+  // been updated.
+  spawn(
+    name: string,
+    token: CancellationToken,
+    body: () => Promise<any>,
+    onFailed: (task: FluxoTask, error: any) => void
+  ): FluxoTask {
+    const task: FluxoTask = { id: this.nextId++, name, token, status: 'running', awaiters: 0, done: Promise.resolve() };
+    this.tasks.add(task);
+    const run = async () => {
+      await this.takeTurn();
+      try {
+        return await body();
+      } finally {
+        this.endTurn();
+      }
+    };
+    task.done = run().then(
+      result => {
+        task.status = 'completed';
+        task.result = result;
+      },
+      error => {
+        task.status = token.isCancelled() ? 'cancelled' : 'failed';
+        task.error = error;
+        onFailed(task, error);
+      }
+    ).finally(() => this.tasks.delete(task));
+    return task;
+  }
+
+  // Resolves once every task has finished, including tasks started meanwhile.
+  // Call without holding the turn.
+  async waitAll() {
+    while (this.tasks.size > 0) {
+      await Promise.all(Array.from(this.tasks, task => task.done));
+    }
+  }
+
+  cancelAll() {
+    this.tasks.forEach(task => task.token.cancel());
+  }
+}
+
+// An unbounded queue of messages between tasks. receive() waits for a
+// message and gives null once the channel is closed and empty, which is why
+// null itself cannot be sent.
+export class FluxoChannel {
+  private queue: any[] = [];
+  private receivers: ((value: any) => void)[] = [];
+  private closed = false;
+
+  send(value: any) {
+    if (this.closed) {
+      throw new Error('Runtime Error: Cannot send on a closed channel');
+    }
+    if (value === null || value === undefined) {
+      throw new Error('Runtime Error: Cannot send null on a channel; null marks a closed channel');
+    }
+    const receiver = this.receivers.shift();
+    if (receiver) {
+      receiver(value);
+    } else {
+      this.queue.push(value);
+    }
+  }
+
+  // `abandon` withdraws a receive that is no longer wanted (e.g. the waiting
+  // task was cancelled), so the next message goes to someone else
+  receive(): { value: Promise<any>; abandon: () => void } {
+    if (this.queue.length > 0) {
+      return { value: Promise.resolve(this.queue.shift()), abandon: () => {} };
+    }
+    if (this.closed) {
+      return { value: Promise.resolve(null), abandon: () => {} };
+    }
+    let receiver!: (value: any) => void;
+    const value = new Promise<any>(resolve => receiver = resolve);
+    this.receivers.push(receiver);
+    return { value, abandon: () => this.receivers = this.receivers.filter(r => r !== receiver) };
+  }
+
+  close() {
+    this.closed = true;
+    this.receivers.forEach(receiver => receiver(null));
+    this.receivers = [];
+  }
+}
@@ -0,0 +1,68 @@
+// Fluxo time
+// The date helpers behind formatDate and parseDate. Times are seconds since
+// 1970-01-01 UTC and dates are formatted in UTC, so a program prints the same
+// dates on the server and in the browser preview
+// (client/public/fluxo-runtime.js mirrors these rules).
+
+export const DEFAULT_DATE_PATTERN = 'YYYY-MM-DD HH:mm:ss';
+
+// Pattern tokens and their widths; any other text in a pattern is literal
+const DATE_TOKENS: Record<string, number> = { YYYY: 4, MM: 2, DD: 2, HH: 2, mm: 2, ss: 2, SSS: 3 };
+const DATE_TOKEN_REGEX = /YYYY|SSS|MM|DD|HH|mm|ss/g;
+
+// What parseDate accepts when no pattern is given; a 'T' separator and a
+// trailing 'Z' (ISO 8601) are accepted too
+const ISO_DATE_PATTERNS = ['YYYY-MM-DD HH:mm:ss.SSS', 'YYYY-MM-DD HH:mm:ss', 'YYYY-MM-DD HH:mm', 'YYYY-MM-DD'];
+
+export function formatDate(seconds: number, pattern: string = DEFAULT_DATE_PATTERN): string {
+  const date = new Date(seconds * 1000);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Runtime Error: formatDate cannot format ${seconds}`);
+  }
+  const parts: Record<string, number> = {
+    YYYY: date.getUTCFullYear(),
+    MM: date.getUTCMonth() + 1,
+    DD: date.getUTCDate(),
+    HH: date.getUTCHours(),
+    mm: date.getUTCMinutes(),
+    ss: date.getUTCSeconds(),
+    SSS: date.getUTCMilliseconds(),
+  };
+  return pattern.replace(DATE_TOKEN_REGEX, token => String(parts[token]).padStart(DATE_TOKENS[token], '0'));
+}
+
+// Seconds since 1970 for `text`, read with `pattern` (or as an ISO date)
+export function parseDate(text: string, pattern?: string): number {
+  const seconds = pattern !== undefined
+    ? matchDate(text, pattern)
+    : ISO_DATE_PATTERNS.map(p => matchDate(text.replace('T', ' ').replace(/Z$/, ''), p)).find(s => s !== undefined);
+  if (seconds === undefined) {
+    throw new Error(`Runtime Error: parseDate could not read "${text}" as ${pattern ?? 'YYYY-MM-DD HH:mm:ss'}`);
+  }
+  return seconds;
+}
+
+function matchDate(text: string, pattern: string): number | undefined {
+  // Tokens become digit groups; everything else must match literally
+  const tokens: string[] = [];
+  const source = pattern.replace(/YYYY|SSS|MM|DD|HH|mm|ss|[.*+?^${}()|[\]\\]/g, part => {
+    if (!(part in DATE_TOKENS)) return '\\' + part;
+    tokens.push(part);
+    return `(\\d{${DATE_TOKENS[part]}})`;
+  });
+  const match = new RegExp(`^${source}$`).exec(text);
+  if (!match) return undefined;
+
+  const parts: Record<string, number> = { YYYY: 1970, MM: 1, DD: 1, HH: 0, mm: 0, ss: 0, SSS: 0 };
+  tokens.forEach((token, i) => parts[token] = Number(match[i + 1]));
+  const time = Date.UTC(parts.YYYY, parts.MM - 1, parts.DD, parts.HH, parts.mm, parts.ss, parts.SSS);
+  // Date.UTC rolls over out-of-range fields (e.g. February 30th), so reject those
+  const date = new Date(time);
+  if (
+    date.getUTCFullYear() !== parts.YYYY || date.getUTCMonth() !== parts.MM - 1 || date.getUTCDate() !== parts.DD ||
+    date.getUTCHours() !== parts.HH || date.getUTCMinutes() !== parts.mm || date.getUTCSeconds() !== parts.ss
+  ) {
+    return undefined;
+  }
+  return time / 1000;
+}
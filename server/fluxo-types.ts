@@ -0,0 +1,733 @@
+// Fluxo type checker
+// A static pass over annotated code, run before a program starts and by the
+// editor. Annotations are optional (`local hp: number = 10`,
+// `function heal(n: number): number`) and only code that involves one is
+// checked: a value given to an annotated variable, parameter or return, or an
+// operator applied to an annotated value. Unannotated programs run exactly as
+// before. Anything the checker cannot work out is `any`, which fits everywhere.
+
+import type { TypeDiagnostic } from "@shared/schema";
+import { storage } from "./storage";
+import { parseFluxo } from "./fluxo-parser";
+import { FluxoInterpreter } from "./fluxo-interpreter";
+import { STD_MODULE_PREFIX } from "./fluxo-stdlib";
+import type {
+  Program,
+  Statement,
+  Expression,
+  FunctionDeclaration,
+  FunctionExpression,
+  ClassDeclaration,
+  CallExpression,
+  MethodCallExpression,
+  Pattern,
+  TypeAnnotation,
+  BinaryOperator,
+  NodeLocation,
+} from "./fluxo-ast";
+
+// 'any', or the union of the types a value may have: basic type names or
+// class keys (for instances of the class)
+type FluxoType = 'any' | string[];
+
+const BASIC_TYPES = new Set(['any', 'number', 'string', 'boolean', 'null', 'list', 'table', 'function']);
+
+interface Signature {
+  name: string;
+  params: FluxoType[];  // For a rest parameter, the type of each argument it collects
+  names: string[];  // Parameter names, for named arguments
+  hasRestParam: boolean;  // The last parameter collects the remaining arguments
+  returns?: FluxoType;  // Only when annotated
+}
+
+interface ClassType {
+  name: string;
+  key: string;  // `name@file`, so classes of the same name in different files stay apart
+  parent?: ClassType;
+  methods: Map<string, Signature>;
+  isEnum?: boolean;  // Declared with enum; its members are the values of the type
+}
+
+// What the checker knows about a variable or the value of an expression
+interface Binding {
+  type: FluxoType;
+  declared: boolean;  // The type comes from an annotation, so operators on the value are checked
+  signature?: Signature;  // Functions
+  bound?: boolean;  // A method read from an instance; self is already passed
+  classType?: ClassType;  // Classes
+  members?: Map<string, Binding>;  // Modules imported with `import alias "path"`
+}
+
+const ANY: Binding = { type: 'any', declared: false };
+
+const typeOf = (...types: string[]): Binding => ({ type: types, declared: false });
+
+// Messages name classes without the file part of their key
+function showType(type: FluxoType): string {
+  return type === 'any' ? 'any' : type.map(name => name.split('@')[0]).join(' | ');
+}
+
+function union(a: FluxoType, b: FluxoType): FluxoType {
+  if (a === 'any' || b === 'any') return 'any';
+  return Array.from(new Set([...a, ...b]));
+}
+
+// The names a pattern binds
+function patternNames(pattern: Pattern): string[] {
+  switch (pattern.type) {
+    case 'BindingPattern':
+      return [pattern.name];
+    case 'ListPattern':
+      return [...pattern.elements.flatMap(patternNames), ...(pattern.rest !== undefined ? [pattern.rest] : [])];
+    case 'TablePattern':
+      return pattern.entries.flatMap(entry => patternNames(entry.value));
+    default:
+      return [];
+  }
+}
+
+// Calls visit on every node below `node`
+function walk(node: any, visit: (node: any) => void) {
+  if (Array.isArray(node)) {
+    node.forEach(child => walk(child, visit));
+    return;
+  }
+  if (typeof node !== 'object' || node === null) return;
+  if (typeof node.type === 'string') visit(node);
+  for (const value of Object.values(node)) {
+    walk(value, visit);
+  }
+}
+
+class Scope {
+  private bindings = new Map<string, Binding>();
+
+  constructor(private parent?: Scope) {}
+
+  define(name: string, binding: Binding) {
+    this.bindings.set(name, binding);
+  }
+
+  lookup(name: string): Binding | undefined {
+    return this.bindings.get(name) ?? this.parent?.lookup(name);
+  }
+
+  child(): Scope {
+    return new Scope(this);
+  }
+}
+
+// Type errors in `files` and in the modules they import. The files are given
+// with their current text, which may not be saved yet; imported modules are
+// read from storage. Files that do not parse are skipped, since running them
+// reports the syntax error.
+export async function checkTypes(files: { path: string; code: string }[]): Promise<TypeDiagnostic[]> {
+  const checker = new FluxoTypeChecker(new Map(files.map(file => [file.path, file.code])));
+  for (const file of files) {
+    await checker.loadModule(file.path);
+  }
+  return checker.diagnostics;
+}
+
+class FluxoTypeChecker {
+  readonly diagnostics: TypeDiagnostic[] = [];
+  // Classes of every file checked so far, by key
+  readonly classes = new Map<string, ClassType>();
+  // Exports of each file checked so far. A file being checked maps to
+  // undefined, so an import cycle sees its exports as unknown.
+  private modules = new Map<string, Map<string, Binding> | undefined>();
+
+  constructor(private sources: Map<string, string>) {}
+
+  classesNamed(name: string): ClassType[] {
+    return Array.from(this.classes.values()).filter(cls => cls.name === name);
+  }
+
+  async loadModule(filePath: string): Promise<Map<string, Binding> | undefined> {
+    if (this.modules.has(filePath)) {
+      return this.modules.get(filePath);
+    }
+    this.modules.set(filePath, undefined);
+    const code = this.sources.get(filePath) ?? await storage.getFileContent(filePath);
+    if (code === undefined) return undefined;
+
+    let program: Program;
+    try {
+      program = parseFluxo(code, filePath);
+    } catch {
+      return undefined;
+    }
+    const file = new FileChecker(this, filePath, program);
+    await file.check();
+    this.modules.set(filePath, file.exports);
+    return file.exports;
+  }
+}
+
+class FileChecker {
+  // Exports of the file's module declaration
+  exports?: Map<string, Binding>;
+  // Exports of the modules the file imports, by path
+  private imports = new Map<string, Map<string, Binding> | undefined>();
+  // Classes and enums declared anywhere in the file, by name
+  private declaredClasses = new Map<string, ClassType>();
+  // Variables assigned after their declaration. Their type can change, so
+  // unannotated ones are not given the type of their first value.
+  private reassigned = new Set<string>();
+  private signatures = new WeakMap<FunctionDeclaration | FunctionExpression, Signature>();
+  private functions: Signature[] = [];  // Enclosing functions, innermost last
+
+  constructor(private checker: FluxoTypeChecker, private filePath: string, private program: Program) {}
+
+  async check() {
+    walk(this.program.body, node => {
+      if (node.type === 'AssignmentStatement' && node.target.type === 'Identifier') {
+        this.reassigned.add(node.target.name);
+      } else if (node.type === 'MultipleAssignmentStatement') {
+        node.targets.forEach((target: Expression) => target.type === 'Identifier' && this.reassigned.add(target.name));
+      } else if (node.type === 'UpdateExpression' && node.argument.type === 'Identifier') {
+        this.reassigned.add(node.argument.name);
+      } else if (node.type === 'ClassDeclaration' || node.type === 'EnumDeclaration') {
+        // Annotations may name a class before its declaration is checked
+        this.declareClass({
+          name: node.name,
+          key: `${node.name}@${this.filePath}`,
+          methods: new Map(),
+          isEnum: node.type === 'EnumDeclaration',
+        });
+      }
+    });
+
+    // Imports are resolved up front, so the rest of the check is synchronous
+    const sources: string[] = [];
+    walk(this.program.body, node => {
+      if (node.type === 'ImportFromStatement') {
+        sources.push(node.source);
+      } else if (node.type === 'ImportAllStatement' && node.source.type === 'StringLiteral') {
+        sources.push(node.source.value);
+      }
+    });
+    for (const source of sources) {
+      if (source.startsWith(STD_MODULE_PREFIX)) continue;
+      const path = FluxoInterpreter.normalizeModulePath(source, this.filePath);
+      this.imports.set(path, await this.checker.loadModule(path));
+    }
+
+    this.checkStatements(this.program.body, new Scope());
+  }
+
+  private declareClass(cls: ClassType) {
+    this.declaredClasses.set(cls.name, cls);
+    this.checker.classes.set(cls.key, cls);
+  }
+
+  private error(message: string, node: NodeLocation) {
+    this.checker.diagnostics.push({ message: `Type Error: ${message}`, filePath: this.filePath, line: node.line, column: node.column });
+  }
+
+  private importedModule(source: string): Map<string, Binding> | undefined {
+    if (source.startsWith(STD_MODULE_PREFIX)) return undefined;
+    return this.imports.get(FluxoInterpreter.normalizeModulePath(source, this.filePath));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Types
+  // ---------------------------------------------------------------------------
+
+  // A class name in an annotation means the class in scope (declared or
+  // imported), else the one declared in this file, else the only class of
+  // that name in the other files, since workspace files share their
+  // top-level scope. A name several other files declare is left as any.
+  private resolveAnnotation(annotation: TypeAnnotation | undefined, scope: Scope): FluxoType {
+    if (!annotation) return 'any';
+    const types: string[] = [];
+    for (const name of annotation.types) {
+      if (name === 'any') return 'any';
+      if (BASIC_TYPES.has(name)) {
+        types.push(name);
+        continue;
+      }
+      const cls = scope.lookup(name)?.classType ?? this.declaredClasses.get(name);
+      const elsewhere = this.checker.classesNamed(name);
+      if (cls) {
+        types.push(cls.key);
+      } else if (elsewhere.length === 1) {
+        types.push(elsewhere[0].key);
+      } else if (elsewhere.length > 1) {
+        return 'any';
+      } else {
+        this.error(`Unknown type '${name}'`, annotation);
+        return 'any';
+      }
+    }
+    return Array.from(new Set(types));
+  }
+
+  // Whether a value of type `name` fits where `expected` is wanted. Instances
+  // fit their class, its parents and `table`.
+  private accepts(expected: string, name: string): boolean {
+    if (expected === name) return true;
+    const cls = BASIC_TYPES.has(name) ? undefined : this.checker.classes.get(name);
+    if (!cls) return false;
+    if (expected === 'table') return true;
+    for (let parent = cls.parent; parent; parent = parent.parent) {
+      if (parent.key === expected) return true;
+    }
+    return false;
+  }
+
+  private isAssignable(actual: FluxoType, expected: FluxoType): boolean {
+    if (actual === 'any' || expected === 'any') return true;
+    return actual.every(name => expected.some(e => this.accepts(e, name)));
+  }
+
+  // Whether the value may be of type `name`
+  private canBe(value: Binding, name: string): boolean {
+    return value.type === 'any' || value.type.some(t => this.accepts(name, t));
+  }
+
+  private isExactly(value: Binding, name: string): boolean {
+    return value.type !== 'any' && value.type.length === 1 && value.type[0] === name;
+  }
+
+  private classOf(value: Binding): ClassType | undefined {
+    if (value.type === 'any' || value.type.length !== 1) return undefined;
+    return this.checker.classes.get(value.type[0]);
+  }
+
+  private findMethod(cls: ClassType, name: string): Signature | undefined {
+    for (let current: ClassType | undefined = cls; current; current = current.parent) {
+      const method = current.methods.get(name);
+      if (method) return method;
+    }
+    return undefined;
+  }
+
+  private signatureOf(fn: FunctionDeclaration | FunctionExpression, name: string, scope: Scope): Signature {
+    let signature = this.signatures.get(fn);
+    if (!signature) {
+      signature = {
+        name,
+        params: fn.params.map(param => this.resolveAnnotation(param.typeAnnotation, scope)),
+        names: fn.params.map(param => param.name),
+        hasRestParam: fn.hasRestParam,
+        returns: fn.returnType ? this.resolveAnnotation(fn.returnType, scope) : undefined,
+      };
+      this.signatures.set(fn, signature);
+    }
+    return signature;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Statements
+  // ---------------------------------------------------------------------------
+
+  private checkStatements(statements: Statement[], scope: Scope) {
+    // Calls may come before the declaration in the source, and signatures
+    // may name imported classes
+    for (const statement of statements) {
+      if (statement.type === 'ImportFromStatement' || statement.type === 'ImportAllStatement') {
+        this.checkStatement(statement, scope);
+      }
+    }
+    for (const statement of statements) {
+      if (statement.type === 'FunctionDeclaration') {
+        scope.define(statement.name, { ...typeOf('function'), signature: this.signatureOf(statement, statement.name, scope) });
+      }
+    }
+    for (const statement of statements) {
+      this.checkStatement(statement, scope);
+    }
+  }
+
+  private checkStatement(statement: Statement, scope: Scope) {
+    switch (statement.type) {
+      case 'ModuleDeclaration': {
+        // A module body runs in its own top-level scope
+        const moduleScope = new Scope();
+        this.checkStatements(statement.body, moduleScope);
+        const exports = new Map<string, Binding>();
+        for (const item of statement.body) {
+          if ((item.type === 'FunctionDeclaration' || item.type === 'ClassDeclaration') && item.exported) {
+            exports.set(item.name, moduleScope.lookup(item.name) ?? ANY);
+          } else if (item.type === 'ExportList') {
+            item.names.forEach(name => exports.set(name, moduleScope.lookup(name) ?? ANY));
+          }
+        }
+        this.exports ??= exports;
+        break;
+      }
+      case 'ModuleFolderImport':
+        scope.define(statement.alias, ANY);
+        break;
+      case 'ImportFromStatement': {
+        const exports = this.importedModule(statement.source);
+        statement.names.forEach(name => scope.define(name, exports?.get(name) ?? ANY));
+        break;
+      }
+      case 'ImportAllStatement': {
+        const exports = statement.source.type === 'StringLiteral' ? this.importedModule(statement.source.value) : undefined;
+        scope.define(statement.identifier, exports ? { ...typeOf('table'), members: exports } : ANY);
+        break;
+      }
+      case 'RequireStatement':
+      case 'ExportList':
+      case 'BreakStatement':
+      case 'ContinueStatement':
+        break;
+      case 'FunctionDeclaration':
+        this.checkFunction(statement, this.signatureOf(statement, statement.name, scope), scope);
+        break;
+      case 'ClassDeclaration':
+        this.checkClass(statement, scope);
+        break;
+      case 'EnumDeclaration': {
+        const cls = this.declaredClasses.get(statement.name)!;
+        scope.define(statement.name, {
+          ...ANY,
+          classType: cls,
+          members: new Map(statement.members.map(member => [member, typeOf(cls.key)])),
+        });
+        break;
+      }
+      case 'DestructuringDeclaration':
+        this.infer(statement.init, scope);
+        patternNames(statement.pattern).forEach(name => scope.define(name, ANY));
+        break;
+      case 'LocalDeclaration': {
+        const value = statement.init ? this.infer(statement.init, scope) : undefined;
+        if (statement.typeAnnotation) {
+          const type = this.resolveAnnotation(statement.typeAnnotation, scope);
+          if (value && !this.isAssignable(value.type, type)) {
+            this.error(`'${statement.name}' is declared as ${showType(type)} but given ${showType(value.type)}`, statement.init!);
+          }
+          scope.define(statement.name, { ...value, type, declared: true });
+        } else {
+          scope.define(statement.name, value && !this.reassigned.has(statement.name) ? value : ANY);
+        }
+        break;
+      }
+      case 'AssignmentStatement': {
+        const value = this.infer(statement.value, scope);
+        if (statement.target.type !== 'Identifier') {
+          this.infer(statement.target, scope);
+          break;
+        }
+        const variable = scope.lookup(statement.target.name);
+        if (!variable?.declared) break;
+        const result = statement.operator === '='
+          ? value
+          : this.inferBinary(statement.operator.slice(0, -1) as BinaryOperator, variable, value, statement);
+        if (!this.isAssignable(result.type, variable.type)) {
+          this.error(`'${statement.target.name}' is declared as ${showType(variable.type)} but assigned ${showType(result.type)}`, statement.value);
+        }
+        break;
+      }
+      case 'MultipleAssignmentStatement': {
+        let values = statement.values.map(value => this.infer(value, scope));
+        // A single value may be a list that is spread over the targets
+        if (values.length === 1 && statement.targets.length > 1) {
+          values = statement.targets.map(() => ANY);
+        }
+        statement.targets.forEach((target, i) => {
+          if (target.type !== 'Identifier') {
+            this.infer(target, scope);
+            return;
+          }
+          const variable = scope.lookup(target.name);
+          const value = values[i] ?? typeOf('null');
+          if (variable?.declared && !this.isAssignable(value.type, variable.type)) {
+            this.error(`'${target.name}' is declared as ${showType(variable.type)} but assigned ${showType(value.type)}`, statement.values[i] ?? target);
+          }
+        });
+        break;
+      }
+      case 'ExpressionStatement':
+        this.infer(statement.expression, scope);
+        break;
+      case 'WaitStatement':
+        this.infer(statement.seconds, scope);
+        this.checkStatements(statement.body, scope.child());
+        break;
+      case 'IfStatement':
+        for (const clause of statement.clauses) {
+          this.infer(clause.condition, scope);
+          this.checkStatements(clause.body, scope.child());
+        }
+        if (statement.alternate) {
+          this.checkStatements(statement.alternate, scope.child());
+        }
+        break;
+      case 'MatchStatement':
+        this.infer(statement.subject, scope);
+        for (const matchCase of statement.cases) {
+          const caseScope = scope.child();
+          for (const pattern of matchCase.patterns) {
+            walk(pattern, node => {
+              if (node.type === 'ValuePattern') this.infer(node.value, scope);
+            });
+            patternNames(pattern).forEach(name => caseScope.define(name, ANY));
+          }
+          if (matchCase.guard) this.infer(matchCase.guard, caseScope);
+          this.checkStatements(matchCase.body, caseScope);
+        }
+        break;
+      case 'WhileStatement':
+        this.infer(statement.condition, scope);
+        this.checkStatements(statement.body, scope.child());
+        break;
+      case 'ForStatement': {
+        const loopScope = scope.child();
+        if (statement.init) this.checkStatement(statement.init, loopScope);
+        if (statement.condition) this.infer(statement.condition, loopScope);
+        if (statement.update) this.checkStatement(statement.update, loopScope);
+        this.checkStatements(statement.body, loopScope.child());
+        break;
+      }
+      case 'ForInStatement': {
+        this.infer(statement.iterable, scope);
+        const loopScope = scope.child();
+        statement.variables.forEach(name => loopScope.define(name, ANY));
+        this.checkStatements(statement.body, loopScope);
+        break;
+      }
+      case 'ReturnStatement': {
+        const value = statement.value ? this.infer(statement.value, scope) : typeOf('null');
+        const fn = this.functions[this.functions.length - 1];
+        if (fn?.returns && !this.isAssignable(value.type, fn.returns)) {
+          this.error(`${fn.name} must return ${showType(fn.returns)}, got ${showType(value.type)}`, statement.value ?? statement);
+        }
+        break;
+      }
+      case 'TryStatement':
+        this.checkStatements(statement.body, scope.child());
+        if (statement.handler) {
+          const handlerScope = scope.child();
+          if (statement.param) handlerScope.define(statement.param, typeOf('table'));
+          this.checkStatements(statement.handler, handlerScope);
+        }
+        if (statement.finalizer) {
+          this.checkStatements(statement.finalizer, scope.child());
+        }
+        break;
+      case 'ThrowStatement':
+        this.infer(statement.value, scope);
+        break;
+    }
+  }
+
+  // `selfClass` types the first parameter of a method
+  private checkFunction(fn: FunctionDeclaration | FunctionExpression, signature: Signature, scope: Scope, selfClass?: string) {
+    const inner = scope.child();
+    fn.params.forEach((param, i) => {
+      if (param.defaultValue) {
+        const value = this.infer(param.defaultValue, inner);
+        if (!this.isAssignable(value.type, signature.params[i])) {
+          this.error(
+            `Default value of '${param.name}' must be ${showType(signature.params[i])}, got ${showType(value.type)}`,
+            param.defaultValue
+          );
+        }
+      }
+      if (fn.hasRestParam && i === fn.params.length - 1) {
+        // In the body a rest parameter is the list of those arguments
+        inner.define(param.name, { type: ['list'], declared: param.typeAnnotation !== undefined });
+      } else if (i === 0 && selfClass && !param.typeAnnotation) {
+        inner.define(param.name, { type: [selfClass], declared: true });
+      } else {
+        inner.define(param.name, { type: signature.params[i], declared: param.typeAnnotation !== undefined });
+      }
+      if (param.pattern) {
+        patternNames(param.pattern).forEach(name => inner.define(name, ANY));
+      }
+    });
+    this.functions.push(signature);
+    this.checkStatements(fn.body, inner);
+    this.functions.pop();
+  }
+
+  private checkClass(declaration: ClassDeclaration, scope: Scope) {
+    const cls = this.declaredClasses.get(declaration.name)!;
+    if (declaration.parent) {
+      cls.parent = this.infer(declaration.parent, scope).classType;
+    }
+    for (const method of declaration.methods) {
+      cls.methods.set(method.name, this.signatureOf(method, `${declaration.name}.${method.name}`, scope));
+    }
+    scope.define(declaration.name, { ...ANY, classType: cls });
+    for (const method of declaration.methods) {
+      this.checkFunction(method, cls.methods.get(method.name)!, scope, cls.key);
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions
+  // ---------------------------------------------------------------------------
+
+  private infer(expr: Expression, scope: Scope): Binding {
+    switch (expr.type) {
+      case 'NumberLiteral':
+        return typeOf('number');
+      case 'StringLiteral':
+        return typeOf('string');
+      case 'TemplateLiteral':
+        expr.parts.forEach(part => typeof part !== 'string' && this.infer(part, scope));
+        return typeOf('string');
+      case 'BooleanLiteral':
+        return typeOf('boolean');
+      case 'NullLiteral':
+      case 'UndefinedLiteral':
+        return typeOf('null');
+      case 'Identifier':
+        return scope.lookup(expr.name) ?? ANY;
+      case 'MemberExpression': {
+        const object = this.infer(expr.object, scope);
+        if (object.members) {
+          return object.members.get(expr.property) ?? ANY;
+        }
+        // Class.method takes self explicitly; instance.method is bound
+        const method = object.classType
+          ? this.findMethod(object.classType, expr.property)
+          : this.classOf(object) && this.findMethod(this.classOf(object)!, expr.property);
+        return method ? { ...typeOf('function'), signature: method, bound: !object.classType } : ANY;
+      }
+      case 'IndexExpression':
+        this.infer(expr.object, scope);
+        this.infer(expr.index, scope);
+        return ANY;
+      case 'ListLiteral':
+        expr.elements.forEach(element => this.infer(element, scope));
+        return typeOf('list');
+      case 'TableLiteral':
+        expr.entries.forEach(entry => {
+          if (typeof entry.key !== 'string') this.infer(entry.key, scope);
+          this.infer(entry.value, scope);
+        });
+        return typeOf('table');
+      case 'FunctionExpression': {
+        const signature = this.signatureOf(expr, expr.name ?? '<anonymous>', scope);
+        this.checkFunction(expr, signature, scope);
+        return { ...typeOf('function'), signature };
+      }
+      case 'CallExpression': {
+        const callee = this.infer(expr.callee, scope);
+        const args = expr.args.map(arg => this.infer(arg, scope));
+        const named = expr.namedArgs.map(arg => this.infer(arg.value, scope));
+        if (callee.classType) {
+          const init = this.findMethod(callee.classType, 'new');
+          if (init) this.checkArguments(init, expr, args, named, 1);
+          return typeOf(callee.classType.key);
+        }
+        if (!callee.signature) return ANY;
+        this.checkArguments(callee.signature, expr, args, named, callee.bound ? 1 : 0);
+        return callee.signature.returns ? { type: callee.signature.returns, declared: true } : ANY;
+      }
+      case 'MethodCallExpression': {
+        const object = this.infer(expr.object, scope);
+        const args = expr.args.map(arg => this.infer(arg, scope));
+        const named = expr.namedArgs.map(arg => this.infer(arg.value, scope));
+        const cls = this.classOf(object);
+        const method = cls && this.findMethod(cls, expr.method);
+        if (!method) return ANY;
+        this.checkArguments(method, expr, args, named, 1);
+        return method.returns ? { type: method.returns, declared: true } : ANY;
+      }
+      case 'UnaryExpression': {
+        const argument = this.infer(expr.argument, scope);
+        if (expr.operator === 'not') return typeOf('boolean');
+        if (expr.operator === '#') {
+          if (argument.declared && !['string', 'list', 'table'].some(type => this.canBe(argument, type))) {
+            this.error(`Cannot get the length of ${showType(argument.type)}`, expr);
+          }
+        } else if (argument.declared && !this.canBe(argument, 'number')) {
+          this.error(`Cannot negate ${showType(argument.type)}`, expr);
+        }
+        return { type: ['number'], declared: argument.declared };
+      }
+      case 'BinaryExpression':
+        return this.inferBinary(expr.operator, this.infer(expr.left, scope), this.infer(expr.right, scope), expr);
+      case 'LogicalExpression': {
+        const left = this.infer(expr.left, scope);
+        const right = this.infer(expr.right, scope);
+        return { type: union(left.type, right.type), declared: left.declared && right.declared };
+      }
+      case 'UpdateExpression': {
+        const argument = this.infer(expr.argument, scope);
+        if (argument.declared && !this.canBe(argument, 'number')) {
+          this.error(`Cannot ${expr.operator === '++' ? 'increment' : 'decrement'} ${showType(argument.type)}`, expr);
+        }
+        return { type: ['number'], declared: argument.declared };
+      }
+      case 'AwaitExpression':
+        this.infer(expr.argument, scope);
+        return ANY;
+    }
+  }
+
+  // `skip` leading parameters are filled in by the call itself (self)
+  // Extra, missing and unknown arguments are left to the interpreter
+  private checkArguments(
+    signature: Signature,
+    call: CallExpression | MethodCallExpression,
+    args: Binding[],
+    named: Binding[],
+    skip: number
+  ) {
+    const rest = signature.hasRestParam ? signature.params.length - 1 : -1;
+    args.forEach((arg, i) => {
+      const expected = rest >= 0 && i + skip >= rest ? signature.params[rest] : signature.params[i + skip];
+      if (expected === undefined || this.isAssignable(arg.type, expected)) return;
+      this.error(`Argument ${i + 1} of ${signature.name} must be ${showType(expected)}, got ${showType(arg.type)}`, call.args[i]);
+    });
+    call.namedArgs.forEach((arg, i) => {
+      const index = signature.names.indexOf(arg.name);
+      if (index < 0 || index === rest || this.isAssignable(named[i].type, signature.params[index])) return;
+      this.error(
+        `Argument '${arg.name}' of ${signature.name} must be ${showType(signature.params[index])}, got ${showType(named[i].type)}`,
+        arg.value
+      );
+    });
+  }
+
+  // Mirrors the interpreter's operator rules. Only operands whose type comes
+  // from an annotation are reported.
+  private inferBinary(operator: BinaryOperator, left: Binding, right: Binding, node: NodeLocation): Binding {
+    const declared = left.declared || right.declared;
+    const describe = () => `${showType(left.type)} and ${showType(right.type)}`;
+    switch (operator) {
+      case '==':
+      case '!=':
+        return typeOf('boolean');
+      case '..':
+        return { type: ['string'], declared };
+      case '<':
+      case '>':
+      case '<=':
+      case '>=': {
+        const sameEnum = left.type !== 'any' && left.type.length === 1 &&
+          !!this.checker.classes.get(left.type[0])?.isEnum && this.isExactly(right, left.type[0]);
+        const comparable = sameEnum || (this.canBe(left, 'number') && this.canBe(right, 'number')) ||
+          (this.canBe(left, 'string') && this.canBe(right, 'string'));
+        if (declared && !comparable) {
+          this.error(`Cannot compare ${showType(left.type)} with ${showType(right.type)} using '${operator}'`, node);
+        }
+        return typeOf('boolean');
+      }
+      case '+': {
+        if (this.isExactly(left, 'string') || this.isExactly(right, 'string')) {
+          return { type: ['string'], declared };
+        }
+        const numbers = this.canBe(left, 'number') && this.canBe(right, 'number');
+        if (declared && !numbers && !this.canBe(left, 'string') && !this.canBe(right, 'string')) {
+          this.error(`Cannot apply '+' to ${describe()}`, node);
+        }
+        return this.isExactly(left, 'number') && this.isExactly(right, 'number') ? { type: ['number'], declared } : { ...ANY, declared };
+      }
+      default:
+        if (declared && !(this.canBe(left, 'number') && this.canBe(right, 'number'))) {
+          this.error(`Cannot apply '${operator}' to ${describe()}`, node);
+        }
+        return { type: ['number'], declared };
+    }
+  }
+}
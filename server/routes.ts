@@ -1,7 +1,10 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { FluxoInterpreter } from "./fluxo-interpreter";
+import { runRegistry, type FluxoRun } from "./fluxo-runs";
+import { runFile, runWorkspace } from "./fluxo-runner";
+import { attachRunSocket } from "./fluxo-run-socket";
+import { checkTypes } from "./fluxo-types";
 import { getAvailableExtensions } from "./extensions-catalog";
 import JSZip from "jszip";
 import multer from "multer";
@@ -16,6 +19,7 @@ import {
   createWorkspaceRequestSchema,
   executeCodeRequestSchema,
   executeWorkspaceRequestSchema,
+  typeCheckRequestSchema,
   toggleExtensionRequestSchema,
 } from "@shared/schema";
 
@@ -450,96 +454,58 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   app.post('/api/execute', async (req, res) => {
+    let run: FluxoRun | undefined;
     try {
       const data = executeCodeRequestSchema.parse(req.body);
-      // Clear module cache before individual file execution
-      FluxoInterpreter.clearModuleCache();
-      const interpreter = new FluxoInterpreter(data.path);
-      const isHtmlFile = data.path.endsWith('.html') || data.path.endsWith('.htm');
-      const output = await interpreter.execute(data.code, isHtmlFile);
-      res.json({ output });
+      run = runRegistry.start(data.runId);
+      const output = await runFile(data, run);
+      res.json({ runId: run.id, output });
     } catch (error: any) {
       res.json({ 
+        runId: run?.id,
         output: [],
         error: error.message || 'Execution failed' 
       });
+    } finally {
+      if (run) runRegistry.finish(run.id);
     }
   });
 
   app.post('/api/execute-workspace', async (req, res) => {
+    let run: FluxoRun | undefined;
     try {
-      
       const data = executeWorkspaceRequestSchema.parse(req.body);
-      
-      // Sort files: modules (.fxm) first, then scripts (.fxo)
-      const moduleFiles = data.files.filter(f => f.path.endsWith('.fxm'));
-      const scriptFiles = data.files.filter(f => f.path.endsWith('.fxo'));
-      const sortedFiles = [...moduleFiles, ...scriptFiles];
-      
-      // Store all files temporarily in storage so imports can find them
-      for (const file of data.files) {
-        const fileContent = await storage.getFileContent(file.path);
-        if (fileContent === undefined) {
-          // File doesn't exist, create it
-          const fileName = file.path.substring(file.path.lastIndexOf('/') + 1);
-          const parentPath = file.path.substring(0, file.path.lastIndexOf('/')) || '/';
-          
-          // Ensure parent folder exists
-          if (parentPath !== '/') {
-            const parentParts = parentPath.split('/').filter(p => p);
-            let currentPath = '';
-            for (const part of parentParts) {
-              const folderPath = currentPath === '' ? `/${part}` : `${currentPath}/${part}`;
-              const folderContent = await storage.getFileContent(folderPath);
-              if (folderContent === undefined) {
-                // Create folder
-                const folderParent = currentPath === '' ? '/' : currentPath;
-                await storage.createFile(folderParent, part, 'folder');
-              }
-              currentPath = folderPath;
-            }
-          }
-          
-          await storage.createFile(parentPath, fileName, 'file', file.code);
-        } else {
-          // File exists, update it
-          await storage.updateFile(file.path, file.code);
-        }
-      }
-      
-      // Clear module cache before workspace execution to ensure clean runs
-      FluxoInterpreter.clearModuleCache();
-      
-      // Create a shared interpreter context using the entry point
-      const interpreter = new FluxoInterpreter(data.entryPoint);
-      let allOutput: any[] = [];
-      
-      // Execute all files in order
-      for (const file of sortedFiles) {
-        try {
-          // Create interpreter with correct file path for each file
-          const fileInterpreter = new FluxoInterpreter(file.path);
-          // Copy context from main interpreter to share modules/variables
-          fileInterpreter['context'] = interpreter['context'];
-          const output = await fileInterpreter.execute(file.code, false);
-          allOutput = [...allOutput, ...output];
-        } catch (error: any) {
-          allOutput.push({
-            id: crypto.randomUUID(),
-            type: 'error',
-            message: `Error in ${file.path}: ${error.message}`,
-            timestamp: Date.now(),
-            filePath: file.path,
-          });
-        }
-      }
-      
-      res.json({ output: allOutput });
+      run = runRegistry.start(data.runId);
+      const output = await runWorkspace(data, run);
+      res.json({ runId: run.id, output });
     } catch (error: any) {
       res.json({ 
+        runId: run?.id,
         output: [],
         error: error.message || 'Workspace execution failed' 
       });
+    } finally {
+      if (run) runRegistry.finish(run.id);
+    }
+  });
+
+  // Type errors in one file, for editor markers. Modules it imports are
+  // checked too, but only the file's own errors are returned.
+  app.post('/api/typecheck', async (req, res) => {
+    try {
+      const data = typeCheckRequestSchema.parse(req.body);
+      const diagnostics = await checkTypes([data]);
+      res.json({ diagnostics: diagnostics.filter(diagnostic => diagnostic.filePath === data.path) });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message || 'Type check failed' });
+    }
+  });
+
+  app.post('/api/runs/:runId/cancel', async (req, res) => {
+    if (runRegistry.cancel(req.params.runId)) {
+      res.json({ success: true });
+    } else {
+      res.status(404).json({ error: 'Run not found or already finished' });
     }
   });
 
@@ -630,5 +596,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  attachRunSocket(httpServer);
   return httpServer;
 }
@@ -66,6 +66,16 @@ export const createWorkspaceRequestSchema = z.object({
 
 export type CreateWorkspaceRequest = z.infer<typeof createWorkspaceRequestSchema>;
 
+// Fluxo call stack frame attached to runtime errors
+export const stackFrameSchema = z.object({
+  functionName: z.string(),
+  filePath: z.string(),
+  line: z.number().optional(),
+  column: z.number().optional(),
+});
+
+export type StackFrame = z.infer<typeof stackFrameSchema>;
+
 // Output message types
 export const outputMessageSchema = z.object({
   id: z.string(),
@@ -75,6 +85,9 @@ export const outputMessageSchema = z.object({
   filePath: z.string().optional(),
   line: z.number().optional(),
   column: z.number().optional(),
+  stack: z.array(stackFrameSchema).optional(),
+  // The spawned task that produced the message; absent for the main program
+  task: z.object({ id: z.number(), name: z.string() }).optional(),
 });
 
 export type OutputMessage = z.infer<typeof outputMessageSchema>;
@@ -116,9 +129,28 @@ export const moveFileRequestSchema = z.object({
 
 export type MoveFileRequest = z.infer<typeof moveFileRequestSchema>;
 
+// The longest time limit a run may ask for
+export const MAX_RUN_TIME_MS = 60_000;
+
+// Per-run execution limits. Omitted fields fall back to the server defaults.
+export const executionBudgetSchema = z.object({
+  maxSteps: z.number().int().positive().max(50_000_000).optional(),
+  maxTimeMs: z.number().int().positive().max(MAX_RUN_TIME_MS).optional(),
+  maxCallDepth: z.number().int().positive().max(1_000).optional(),
+  maxOutputMessages: z.number().int().positive().max(10_000).optional(),
+});
+
+export type ExecutionBudget = z.infer<typeof executionBudgetSchema>;
+
+// Runs started from the editor can be stopped there, so they get the longest
+// time limit rather than the server default meant for API calls
+export const IDE_EXECUTION_BUDGET: ExecutionBudget = { maxTimeMs: MAX_RUN_TIME_MS };
+
 export const executeCodeRequestSchema = z.object({
   path: z.string(),
   code: z.string(),
+  budget: executionBudgetSchema.optional(),
+  runId: z.string().optional(),  // Chosen by the client so it can cancel the run; generated if omitted
 });
 
 export type ExecuteCodeRequest = z.infer<typeof executeCodeRequestSchema>;
@@ -129,17 +161,78 @@ export const executeWorkspaceRequestSchema = z.object({
     code: z.string(),
   })),
   entryPoint: z.string(),
+  budget: executionBudgetSchema.optional(),
+  runId: z.string().optional(),
 });
 
 export type ExecuteWorkspaceRequest = z.infer<typeof executeWorkspaceRequestSchema>;
 
 export const executeCodeResponseSchema = z.object({
+  runId: z.string().optional(),
   output: z.array(outputMessageSchema),
   error: z.string().optional(),
 });
 
 export type ExecuteCodeResponse = z.infer<typeof executeCodeResponseSchema>;
 
+// Static type checking of annotated Fluxo code (editor markers)
+export const typeCheckRequestSchema = z.object({
+  path: z.string(),
+  code: z.string(),
+});
+
+export type TypeCheckRequest = z.infer<typeof typeCheckRequestSchema>;
+
+export const typeDiagnosticSchema = z.object({
+  message: z.string(),
+  filePath: z.string(),
+  line: z.number(),
+  column: z.number(),
+});
+
+export type TypeDiagnostic = z.infer<typeof typeDiagnosticSchema>;
+
+// Streaming runs (WebSocket at RUN_SOCKET_PATH, one connection per run)
+export const RUN_SOCKET_PATH = '/api/run';
+
+export const runRequestSchema = z.discriminatedUnion('kind', [
+  executeCodeRequestSchema.extend({ kind: z.literal('file') }),
+  executeWorkspaceRequestSchema.extend({ kind: z.literal('workspace') }),
+]);
+
+export type RunRequest = z.infer<typeof runRequestSchema>;
+
+// Client -> server
+export const runClientMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('start'), request: runRequestSchema }),
+  z.object({ type: z.literal('cancel') }),
+  // Answer to the most recent input-request
+  z.object({ type: z.literal('input'), value: z.string() }),
+]);
+
+export type RunClientMessage = z.infer<typeof runClientMessageSchema>;
+
+// Server -> client
+export const runFinishedStatusSchema = z.enum(['completed', 'cancelled', 'failed']);
+
+export type RunFinishedStatus = z.infer<typeof runFinishedStatusSchema>;
+
+export const runServerMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('run-started'), runId: z.string(), startedAt: z.number() }),
+  z.object({ type: z.literal('output'), runId: z.string(), message: outputMessageSchema }),
+  // The program called input() and is paused until the client sends an answer
+  z.object({ type: z.literal('input-request'), runId: z.string(), prompt: z.string() }),
+  z.object({
+    type: z.literal('run-finished'),
+    runId: z.string().optional(),  // Missing if the run could not be started
+    status: runFinishedStatusSchema,
+    error: z.string().optional(),
+    durationMs: z.number(),
+  }),
+]);
+
+export type RunServerMessage = z.infer<typeof runServerMessageSchema>;
+
 // Extension request schemas
 export const downloadExtensionRequestSchema = z.object({
   id: z.string(),